@@ -56,5 +56,19 @@ export class BasecampOAuth2Api implements ICredentialType {
 			type: 'hidden',
 			default: 'body',
 		},
+		{
+			displayName: 'API Base URL',
+			name: 'apiBaseUrl',
+			type: 'string',
+			default: 'https://3.basecampapi.com',
+			description: 'Base URL of the Basecamp API. Only change this to point the node at a Basecamp stand-in, e.g. a mock server in CI.',
+		},
+		{
+			displayName: 'Launchpad URL',
+			name: 'launchpadUrl',
+			type: 'string',
+			default: 'https://launchpad.37signals.com',
+			description: 'Base URL of 37signals Launchpad, used to list accounts and to test the credential. Signing in and refreshing tokens always go through launchpad.37signals.com.',
+		},
 	];
 }
@@ -0,0 +1,126 @@
+import type {
+	IAuthenticateGeneric,
+	ICredentialDataDecryptedObject,
+	ICredentialType,
+	IDataObject,
+	IHttpRequestHelper,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class BasecampTokenApi implements ICredentialType {
+	name = 'basecampTokenApi';
+
+	displayName = 'Basecamp Access Token API';
+
+	documentationUrl = 'basecamp';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Session Token',
+			name: 'sessionToken',
+			type: 'hidden',
+			typeOptions: {
+				expirable: true,
+			},
+			default: '',
+		},
+		{
+			displayName: 'Access Token',
+			name: 'accessToken',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'A pre-issued Launchpad access token. Used until it expires, then a new one is requested with the refresh token.',
+		},
+		{
+			displayName: 'Refresh Token',
+			name: 'refreshToken',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'The Launchpad refresh token issued together with the access token',
+		},
+		{
+			displayName: 'Client ID',
+			name: 'clientId',
+			type: 'string',
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Client Secret',
+			name: 'clientSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Redirect URI',
+			name: 'redirectUri',
+			type: 'string',
+			default: '',
+			description: 'The redirect URI registered for the integration, if Launchpad asks for it on refresh',
+		},
+		{
+			displayName: 'API Base URL',
+			name: 'apiBaseUrl',
+			type: 'string',
+			default: 'https://3.basecampapi.com',
+			description: 'Base URL of the Basecamp API. Only change this to point the node at a Basecamp stand-in, e.g. a mock server in CI.',
+		},
+		{
+			displayName: 'Launchpad URL',
+			name: 'launchpadUrl',
+			type: 'string',
+			default: 'https://launchpad.37signals.com',
+			description: 'Base URL of 37signals Launchpad, used to list accounts and to refresh tokens',
+		},
+	];
+
+	/**
+	 * Use the pre-issued access token first. Once Basecamp rejects it, the
+	 * stored session token is no longer empty and we exchange the refresh
+	 * token for a new access token ourselves (Launchpad `type=refresh`).
+	 */
+	async preAuthentication(this: IHttpRequestHelper, credentials: ICredentialDataDecryptedObject) {
+		if (!credentials.sessionToken && credentials.accessToken) {
+			return { sessionToken: credentials.accessToken };
+		}
+
+		if (!credentials.refreshToken) {
+			throw new Error('The access token expired and no refresh token is configured');
+		}
+
+		const launchpadUrl = (credentials.launchpadUrl as string) || 'https://launchpad.37signals.com';
+
+		const qs: IDataObject = {
+			type: 'refresh',
+			refresh_token: credentials.refreshToken,
+			client_id: credentials.clientId,
+			client_secret: credentials.clientSecret,
+		};
+
+		if (credentials.redirectUri) {
+			qs.redirect_uri = credentials.redirectUri;
+		}
+
+		const { access_token } = (await this.helpers.httpRequest({
+			method: 'POST',
+			url: `${launchpadUrl.replace(/\/+$/, '')}/authorization/token`,
+			qs,
+			json: true,
+		})) as { access_token: string };
+
+		return { sessionToken: access_token };
+	}
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				Authorization: '=Bearer {{$credentials.sessionToken}}',
+			},
+		},
+	};
+}
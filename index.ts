@@ -1,2 +1,5 @@
 export * from './credentials/BasecampOAuth2Api.credentials';
+export * from './credentials/BasecampTokenApi.credentials';
 export * from './nodes/Basecamp/Basecamp.node';
+export * from './nodes/Basecamp/BasecampTrigger.node';
+export * from './nodes/Basecamp/BasecampPollingTrigger.node';
@@ -0,0 +1,6 @@
+module.exports = {
+	preset: 'ts-jest',
+	testEnvironment: 'node',
+	roots: ['<rootDir>/nodes'],
+	testMatch: ['**/test/**/*.test.ts'],
+};
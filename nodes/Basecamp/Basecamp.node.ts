@@ -3,6 +3,8 @@ import type {
 	IDataObject,
 	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodeProperties,
+	INodePropertyMode,
 	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
@@ -10,35 +12,258 @@ import type {
 import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
 
 import {
+	addMentions,
+	appendAttachments,
 	basecampApiRequest,
 	basecampApiRequestAllItems,
+	basecampCredentialTest,
+	basecampDownloadUpload,
+	basecampUploadAttachment,
+	formatRichText,
 	getAccounts,
 	getCampfires,
+	getCardTableColumnId,
 	getCardTableColumns,
 	getCardTables,
+	getDockToolId,
 	getDocuments,
 	getMessageBoards,
 	getMessages,
 	getPeople,
+	getProjectId,
 	getProjects,
 	getQuestions,
 	getQuestionnaires,
+	getRecordingLocator,
 	getSchedules,
 	getTemplates,
+	getToday,
+	getTodolistGroups,
 	getTodolists,
 	getTodosets,
 	getUploads,
 	getVaults,
 	getWebhooks,
+	matchesTodoSearch,
+	parseIds,
+	searchAnyRecordings,
+	searchCards,
+	searchDocuments,
+	searchMessages,
+	searchPeople,
+	searchProjects,
+	searchQuestions,
+	searchScheduleEntries,
+	searchTodolists,
+	searchTodos,
+	searchUploads,
+	searchVaults,
+	webhookEventTypes,
 } from './GenericFunctions';
 
+const idMode: INodePropertyMode = {
+	displayName: 'ID',
+	name: 'id',
+	type: 'string',
+	placeholder: '12345',
+	validation: [
+		{
+			type: 'regex',
+			properties: {
+				regex: '^\\d+$',
+				errorMessage: 'Not a valid Basecamp ID',
+			},
+		},
+	],
+};
+
+const projectLocatorModes: INodePropertyMode[] = [
+	{
+		displayName: 'From List',
+		name: 'list',
+		type: 'list',
+		typeOptions: {
+			searchListMethod: 'searchProjects',
+			searchable: true,
+		},
+	},
+	{
+		displayName: 'By URL',
+		name: 'url',
+		type: 'string',
+		placeholder: 'https://3.basecamp.com/999999999/projects/12345',
+		validation: [
+			{
+				type: 'regex',
+				properties: {
+					regex: '^(?:https?://)?[^/]+/\\d+/(?:projects|buckets)/\\d+',
+					errorMessage: 'Not a valid Basecamp project link',
+				},
+			},
+		],
+		extractValue: {
+			type: 'regex',
+			regex: '/(?:projects|buckets)/(\\d+)',
+		},
+	},
+	idMode,
+];
+
+const personLocatorModes: INodePropertyMode[] = [
+	{
+		displayName: 'From List',
+		name: 'list',
+		type: 'list',
+		typeOptions: {
+			searchListMethod: 'searchPeople',
+			searchable: true,
+		},
+	},
+	idMode,
+];
+
+/**
+ * Modes of a recording picker. Links must point at the given kind of
+ * recording (e.g. `todos` or `card_tables/cards`), any kind when empty.
+ * Recordings Basecamp cannot list by type are picked by link or ID only.
+ */
+function recordingLocatorModes(
+	searchListMethod: string | undefined,
+	urlPath: string,
+	examplePath = urlPath || 'todos',
+): INodePropertyMode[] {
+	const pattern = `/buckets/\\d+/${urlPath ? `${urlPath}/` : '(?:[a-z_]+/)+'}(\\d+)`;
+
+	const modes: INodePropertyMode[] = [
+		{
+			displayName: 'By URL',
+			name: 'url',
+			type: 'string',
+			hint: 'App or API link, e.g. copied from the browser',
+			placeholder: `https://3.basecamp.com/999999999/buckets/12345/${examplePath}/67890`,
+			validation: [
+				{
+					type: 'regex',
+					properties: {
+						regex: `^(?:https?://)?[^/]+/\\d+${pattern}`,
+						errorMessage: 'Not a valid Basecamp link',
+					},
+				},
+			],
+			extractValue: {
+				type: 'regex',
+				regex: pattern,
+			},
+		},
+		idMode,
+	];
+
+	if (searchListMethod) {
+		modes.unshift({
+			displayName: 'From List',
+			name: 'list',
+			type: 'list',
+			typeOptions: {
+				searchListMethod,
+				searchable: true,
+				searchFilterRequired: !urlPath,
+			},
+		});
+	}
+
+	return modes;
+}
+
+const expressionHint =
+	'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.';
+
+// Fields as version 1 of the node defined them, before they became resource
+// locators. Workflows saved with version 1 hold plain IDs in them.
+const LEGACY_FIELDS: { [name: string]: Pick<INodeProperties, 'displayName' | 'type' | 'typeOptions'> } = {
+	cardId: { displayName: 'Card ID', type: 'string' },
+	documentId: { displayName: 'Document ID', type: 'string' },
+	lineId: { displayName: 'Line ID', type: 'string' },
+	messageId: { displayName: 'Message ID', type: 'string' },
+	personId: {
+		displayName: 'Person Name or ID',
+		type: 'options',
+		typeOptions: { loadOptionsMethod: 'getPeople' },
+	},
+	projectId: {
+		displayName: 'Project Name or ID',
+		type: 'options',
+		typeOptions: { loadOptionsMethod: 'getProjects' },
+	},
+	questionId: {
+		displayName: 'Question Name or ID',
+		type: 'options',
+		typeOptions: { loadOptionsMethod: 'getQuestions', loadOptionsDependsOn: ['questionnaireId'] },
+	},
+	recordingId: { displayName: 'Recording ID', type: 'string' },
+	scheduleEntryId: { displayName: 'Schedule Entry ID', type: 'string' },
+	todoId: { displayName: 'To-Do ID', type: 'string' },
+	todolistId: {
+		displayName: 'To-Do List Name or ID',
+		type: 'options',
+		typeOptions: { loadOptionsMethod: 'getTodolists', loadOptionsDependsOn: ['projectId'] },
+	},
+	uploadId: { displayName: 'Upload ID', type: 'string' },
+	vaultId: { displayName: 'Vault ID', type: 'string' },
+};
+
+/**
+ * Show resource locators from version 2 on, and the field version 1 had in
+ * their place before that
+ */
+function withLegacyFields(properties: INodeProperties[]): INodeProperties[] {
+	return properties.flatMap((property) => {
+		const legacy = LEGACY_FIELDS[property.name];
+		if (property.type !== 'resourceLocator' || !legacy) {
+			return [property];
+		}
+
+		const show = property.displayOptions?.show ?? {};
+		const { modes: _modes, ...field } = property;
+
+		return [
+			{
+				...field,
+				...legacy,
+				default: '',
+				description:
+					legacy.type === 'options' ? `${property.description}. ${expressionHint}` : property.description,
+				displayOptions: { ...property.displayOptions, show: { ...show, '@version': [1] } },
+			},
+			{
+				...property,
+				displayOptions: { ...property.displayOptions, show: { ...show, '@version': [{ _cnd: { gte: 2 } }] } },
+			},
+		];
+	});
+}
+
+// Status each recording operation moves a recording into
+const RECORDING_STATUSES: { [operation: string]: string } = {
+	archive: 'archived',
+	trash: 'trashed',
+	unarchive: 'active',
+};
+
+// Types of the columns every card table has besides the regular ones
+const CARD_TABLE_COLUMN_TYPES: { [destination: string]: string } = {
+	done: 'Kanban::DoneColumn',
+	notNow: 'Kanban::NotNowColumn',
+	triage: 'Kanban::Triage',
+};
+
 export class Basecamp implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Basecamp',
 		name: 'basecamp',
 		icon: 'file:basecamp.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
 		description: 'Consume Basecamp API',
 		defaults: {
@@ -51,9 +276,41 @@ export class Basecamp implements INodeType {
 			{
 				name: 'basecampOAuth2Api',
 				required: true,
+				testedBy: 'basecampCredentialTest',
+				displayOptions: {
+					show: {
+						authentication: ['oAuth2'],
+					},
+				},
+			},
+			{
+				name: 'basecampTokenApi',
+				required: true,
+				testedBy: 'basecampCredentialTest',
+				displayOptions: {
+					show: {
+						authentication: ['accessToken'],
+					},
+				},
 			},
 		],
-		properties: [
+		properties: withLegacyFields([
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{
+						name: 'OAuth2',
+						value: 'oAuth2',
+					},
+					{
+						name: 'Access Token',
+						value: 'accessToken',
+					},
+				],
+				default: 'oAuth2',
+			},
 			{
 				displayName: 'Account Name or ID',
 				name: 'accountId',
@@ -71,6 +328,10 @@ export class Basecamp implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Attachment',
+						value: 'attachment',
+					},
 					{
 						name: 'Campfire',
 						value: 'campfire',
@@ -83,10 +344,18 @@ export class Basecamp implements INodeType {
 						name: 'Card',
 						value: 'card',
 					},
+					{
+						name: 'Card Step',
+						value: 'cardStep',
+					},
 					{
 						name: 'Card Table',
 						value: 'cardTable',
 					},
+					{
+						name: 'Card Table Column',
+						value: 'cardTableColumn',
+					},
 					{
 						name: 'Comment',
 						value: 'comment',
@@ -119,10 +388,18 @@ export class Basecamp implements INodeType {
 						name: 'Question Answer',
 						value: 'questionAnswer',
 					},
+					{
+						name: 'Recording',
+						value: 'recording',
+					},
 					{
 						name: 'Schedule Entry',
 						value: 'scheduleEntry',
 					},
+					{
+						name: 'Subscription',
+						value: 'subscription',
+					},
 					{
 						name: 'Template',
 						value: 'template',
@@ -239,21 +516,19 @@ export class Basecamp implements INodeType {
 
 			// Project: Get, Delete, Update
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['project'],
 						operation: ['get', 'delete', 'update'],
 					},
 				},
-				description: 'The project to operate on. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project to operate on',
 			},
 
 			// Project: Update
@@ -339,38 +614,66 @@ export class Basecamp implements INodeType {
 						description: 'Create a new to-do list',
 						action: 'Create a to-do list',
 					},
+					{
+						name: 'Create Group',
+						value: 'createGroup',
+						description: 'Create a group in a to-do list',
+						action: 'Create a group in a to-do list',
+					},
 					{
 						name: 'Get',
 						value: 'get',
 						description: 'Get a to-do list',
 						action: 'Get a to-do list',
 					},
+					{
+						name: 'Get Groups',
+						value: 'getGroups',
+						description: 'Get the groups of a to-do list',
+						action: 'Get the groups of a to-do list',
+					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
 						description: 'Get many to-do lists',
 						action: 'Get many to-do lists',
 					},
+					{
+						name: 'Reposition Group',
+						value: 'repositionGroup',
+						description: 'Move a group to another position in its to-do list',
+						action: 'Reposition a group in a to-do list',
+					},
+					{
+						name: 'Trash',
+						value: 'trash',
+						description: 'Move a to-do list to the trash',
+						action: 'Trash a to-do list',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update the name or description of a to-do list',
+						action: 'Update a to-do list',
+					},
 				],
 				default: 'getAll',
 			},
 
 			// To-Do List: Project Selection
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['todolist'],
 					},
 				},
-				description: 'The project containing the to-do lists. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project containing the to-do lists',
 			},
 
 			// To-Do List: Create
@@ -383,7 +686,7 @@ export class Basecamp implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['todolist'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 					},
 				},
 				description: 'Name of the to-do list',
@@ -392,7 +695,6 @@ export class Basecamp implements INodeType {
 				displayName: 'Todoset ID',
 				name: 'todosetId',
 				type: 'string',
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
@@ -400,7 +702,7 @@ export class Basecamp implements INodeType {
 						operation: ['create'],
 					},
 				},
-				description: 'The ID of the todoset (found in project details)',
+				description: 'The ID of the todoset. Leave empty to use the to-do set of the project.',
 			},
 			{
 				displayName: 'Additional Fields',
@@ -425,24 +727,158 @@ export class Basecamp implements INodeType {
 				],
 			},
 
-			// To-Do List: Get
+			// To-Do List: Get, Update, Trash and groups
 			{
-				displayName: 'To-Do List Name or ID',
+				displayName: 'To-Do List',
 				name: 'todolistId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getTodolists',
-					loadOptionsDependsOn: ['projectId'],
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchTodolists', 'todolists'),
+				displayOptions: {
+					show: {
+						resource: ['todolist'],
+						operation: ['createGroup', 'get', 'getGroups', 'trash', 'update'],
+					},
+				},
+				description: 'The to-do list to operate on',
+			},
+			{
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['todolist'],
+						operation: ['update'],
+					},
 				},
+				options: [
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'New description of the to-do list',
+					},
+				],
+			},
+
+			// To-Do List: Groups
+			{
+				displayName: 'Group Name',
+				name: 'groupName',
+				type: 'string',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
 						resource: ['todolist'],
-						operation: ['get'],
+						operation: ['createGroup'],
+					},
+				},
+				description: 'Name of the group',
+			},
+			{
+				displayName: 'Group Fields',
+				name: 'groupFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['todolist'],
+						operation: ['createGroup'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Color',
+						name: 'color',
+						type: 'options',
+						options: [
+							{
+								name: 'Aqua',
+								value: 'aqua',
+							},
+							{
+								name: 'Blue',
+								value: 'blue',
+							},
+							{
+								name: 'Brown',
+								value: 'brown',
+							},
+							{
+								name: 'Gray',
+								value: 'gray',
+							},
+							{
+								name: 'Green',
+								value: 'green',
+							},
+							{
+								name: 'Orange',
+								value: 'orange',
+							},
+							{
+								name: 'Pink',
+								value: 'pink',
+							},
+							{
+								name: 'Purple',
+								value: 'purple',
+							},
+							{
+								name: 'Red',
+								value: 'red',
+							},
+							{
+								name: 'White',
+								value: 'white',
+							},
+							{
+								name: 'Yellow',
+								value: 'yellow',
+							},
+						],
+						default: 'white',
+						description: 'Color of the group',
+					},
+				],
+			},
+			{
+				displayName: 'Group',
+				name: 'groupId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'url', value: '' },
+				modes: recordingLocatorModes(undefined, 'todolists'),
+				displayOptions: {
+					show: {
+						resource: ['todolist'],
+						operation: ['repositionGroup'],
+					},
+				},
+				description: 'The group to move',
+			},
+			{
+				displayName: 'Position',
+				name: 'position',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				displayOptions: {
+					show: {
+						resource: ['todolist'],
+						operation: ['repositionGroup'],
 					},
 				},
-				description: 'The to-do list to get. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'Position of the group in its to-do list, starting at 1 for the first group',
 			},
 
 			// To-Do List: Get All
@@ -450,7 +886,6 @@ export class Basecamp implements INodeType {
 				displayName: 'Todoset ID',
 				name: 'todosetId',
 				type: 'string',
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
@@ -458,7 +893,7 @@ export class Basecamp implements INodeType {
 						operation: ['getAll'],
 					},
 				},
-				description: 'The ID of the todoset (found in project details)',
+				description: 'The ID of the todoset. Leave empty to use the to-do set of the project.',
 			},
 			{
 				displayName: 'Return All',
@@ -467,7 +902,7 @@ export class Basecamp implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['todolist'],
-						operation: ['getAll'],
+						operation: ['getAll', 'getGroups'],
 					},
 				},
 				default: false,
@@ -480,7 +915,7 @@ export class Basecamp implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['todolist'],
-						operation: ['getAll'],
+						operation: ['getAll', 'getGroups'],
 						returnAll: [false],
 					},
 				},
@@ -535,6 +970,24 @@ export class Basecamp implements INodeType {
 						description: 'Get many to-dos',
 						action: 'Get many to-dos',
 					},
+					{
+						name: 'Move',
+						value: 'move',
+						description: 'Move a to-do to another to-do list or group',
+						action: 'Move a to-do',
+					},
+					{
+						name: 'Reposition',
+						value: 'reposition',
+						description: 'Move a to-do to another position in its to-do list',
+						action: 'Reposition a to-do',
+					},
+					{
+						name: 'Search',
+						value: 'search',
+						description: 'Search to-dos across projects',
+						action: 'Search to-dos',
+					},
 					{
 						name: 'Uncomplete',
 						value: 'uncomplete',
@@ -553,40 +1006,38 @@ export class Basecamp implements INodeType {
 
 			// To-Do: Project Selection
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['todo'],
 					},
+					hide: {
+						operation: ['search'],
+					},
 				},
-				description: 'The project containing the to-dos. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project containing the to-dos',
 			},
 
 			// To-Do: Create
 			{
-				displayName: 'To-Do List Name or ID',
+				displayName: 'To-Do List',
 				name: 'todolistId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getTodolists',
-					loadOptionsDependsOn: ['projectId'],
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchTodolists', 'todolists'),
 				displayOptions: {
 					show: {
 						resource: ['todo'],
 						operation: ['create', 'getAll'],
 					},
 				},
-				description: 'The to-do list to add the to-do to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The to-do list to add the to-do to',
 			},
 			{
 				displayName: 'Content',
@@ -658,20 +1109,74 @@ export class Basecamp implements INodeType {
 				],
 			},
 
-			// To-Do: Get, Delete, Complete, Uncomplete, Update
+			// To-Do: Get, Delete, Complete, Uncomplete, Update, Move, Reposition
 			{
-				displayName: 'To-Do ID',
+				displayName: 'To-Do',
 				name: 'todoId',
-				type: 'string',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchTodos', 'todos'),
+				displayOptions: {
+					show: {
+						resource: ['todo'],
+						operation: ['get', 'delete', 'complete', 'uncomplete', 'update', 'move', 'reposition'],
+					},
+				},
+				description: 'The to-do to operate on',
+			},
+
+			// To-Do: Move, Reposition
+			{
+				displayName: 'Target To-Do List Name or ID',
+				name: 'targetTodolistId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getTodolists',
+					loadOptionsDependsOn: ['projectId'],
+				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
 						resource: ['todo'],
-						operation: ['get', 'delete', 'complete', 'uncomplete', 'update'],
+						operation: ['move'],
+					},
+				},
+				description: 'The to-do list to move the to-do to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Target Group Name or ID',
+				name: 'targetGroupId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getTodolistGroups',
+					loadOptionsDependsOn: ['targetTodolistId'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['todo'],
+						operation: ['move'],
+					},
+				},
+				description: 'The group of the target to-do list to move the to-do to. Leave empty to move it outside of any group. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Position',
+				name: 'position',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				displayOptions: {
+					show: {
+						resource: ['todo'],
+						operation: ['move', 'reposition'],
 					},
 				},
-				description: 'The ID of the to-do',
+				description: 'Position of the to-do in its to-do list, starting at 1 for the top',
 			},
 
 			// To-Do: Update
@@ -731,7 +1236,7 @@ export class Basecamp implements INodeType {
 				],
 			},
 
-			// To-Do: Get All
+			// To-Do: Get All, Search
 			{
 				displayName: 'Return All',
 				name: 'returnAll',
@@ -739,7 +1244,7 @@ export class Basecamp implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['todo'],
-						operation: ['getAll'],
+						operation: ['getAll', 'search'],
 					},
 				},
 				default: false,
@@ -752,7 +1257,7 @@ export class Basecamp implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['todo'],
-						operation: ['getAll'],
+						operation: ['getAll', 'search'],
 						returnAll: [false],
 					},
 				},
@@ -805,32 +1310,92 @@ export class Basecamp implements INodeType {
 					},
 				],
 			},
-
-			// ----------------------------------
-			//         Message
-			// ----------------------------------
 			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
 				displayOptions: {
 					show: {
-						resource: ['message'],
+						resource: ['todo'],
+						operation: ['search'],
 					},
 				},
 				options: [
 					{
-						name: 'Create',
-						value: 'create',
-						description: 'Create a new message',
-						action: 'Create a message',
+						displayName: 'Assignee IDs',
+						name: 'assigneeIds',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated IDs of people. Only to-dos assigned to at least one of them are returned.',
 					},
 					{
-						name: 'Get',
-						value: 'get',
-						description: 'Get a message',
-						action: 'Get a message',
+						displayName: 'Completed Since',
+						name: 'completedSince',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return to-dos completed at or after this time. To-dos Basecamp lists without their completion are left out.',
+					},
+					{
+						displayName: 'Due After',
+						name: 'dueAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return to-dos due on or after this day',
+					},
+					{
+						displayName: 'Due Before',
+						name: 'dueBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return to-dos due on or before this day',
+					},
+					{
+						displayName: 'Overdue Only',
+						name: 'overdue',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to return only open to-dos whose due date has passed in the time zone of the workflow',
+					},
+					{
+						displayName: 'Project Names or IDs',
+						name: 'projects',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getProjects',
+						},
+						default: [],
+						description: 'Only search these projects. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+				],
+			},
+
+			// ----------------------------------
+			//         Message
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['message'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new message',
+						action: 'Create a message',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a message',
+						action: 'Get a message',
 					},
 					{
 						name: 'Get Many',
@@ -844,20 +1409,18 @@ export class Basecamp implements INodeType {
 
 			// Message: Project Selection
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['message'],
 					},
 				},
-				description: 'The project to post the message to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project to post the message to',
 			},
 
 			// Message: Create
@@ -865,7 +1428,6 @@ export class Basecamp implements INodeType {
 				displayName: 'Message Board ID',
 				name: 'messageBoardId',
 				type: 'string',
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
@@ -873,7 +1435,7 @@ export class Basecamp implements INodeType {
 						operation: ['create', 'getAll'],
 					},
 				},
-				description: 'The ID of the message board (found in project details)',
+				description: 'The ID of the message board. Leave empty to use the message board of the project.',
 			},
 			{
 				displayName: 'Subject',
@@ -909,6 +1471,31 @@ export class Basecamp implements INodeType {
 						default: '',
 						description: 'Content of the message (supports HTML)',
 					},
+					{
+						displayName: 'Attachment SGIDs',
+						name: 'attachmentSgids',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated attachable SGIDs (from Attachment → Create) to embed in the content',
+					},
+					{
+						displayName: 'Mention People Names or IDs',
+						name: 'mentionPersonIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to mention (and notify) in the message. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Resolve Inline Mentions',
+						name: 'resolveMentions',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to turn @Full Name and @email tokens in the message into mentions of matching project members',
+					},
 					{
 						displayName: 'Status',
 						name: 'status',
@@ -931,18 +1518,19 @@ export class Basecamp implements INodeType {
 
 			// Message: Get
 			{
-				displayName: 'Message ID',
+				displayName: 'Message',
 				name: 'messageId',
-				type: 'string',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchMessages', 'messages'),
 				displayOptions: {
 					show: {
 						resource: ['message'],
 						operation: ['get'],
 					},
 				},
-				description: 'The ID of the message',
+				description: 'The message to get',
 			},
 
 			// Message: Get All
@@ -1009,35 +1597,34 @@ export class Basecamp implements INodeType {
 
 			// Comment: Project Selection
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['comment'],
 					},
 				},
-				description: 'The project containing the recording. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project containing the recording',
 			},
 
 			// Comment: Recording ID (the item to comment on)
 			{
-				displayName: 'Recording ID',
+				displayName: 'Recording',
 				name: 'recordingId',
-				type: 'string',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchAnyRecordings', ''),
 				displayOptions: {
 					show: {
 						resource: ['comment'],
 					},
 				},
-				description: 'The ID of the recording (to-do, message, etc.) to comment on or get comments from',
+				description: 'The recording (to-do, message, etc.) to comment on or get comments from',
 			},
 
 			// Comment: Create
@@ -1055,6 +1642,46 @@ export class Basecamp implements INodeType {
 				},
 				description: 'Content of the comment (supports HTML)',
 			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['comment'],
+						operation: ['create'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Attachment SGIDs',
+						name: 'attachmentSgids',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated attachable SGIDs (from Attachment → Create) to embed in the comment',
+					},
+					{
+						displayName: 'Mention People Names or IDs',
+						name: 'mentionPersonIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to mention (and notify) in the comment. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Resolve Inline Mentions',
+						name: 'resolveMentions',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to turn @Full Name and @email tokens in the comment into mentions of matching project members',
+					},
+				],
+			},
 
 			// Comment: Get All
 			{
@@ -1112,20 +1739,18 @@ export class Basecamp implements INodeType {
 				default: 'get',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['campfire'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
 				displayName: 'Campfire Name or ID',
@@ -1135,7 +1760,6 @@ export class Basecamp implements INodeType {
 					loadOptionsMethod: 'getCampfires',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
@@ -1143,7 +1767,7 @@ export class Basecamp implements INodeType {
 						operation: ['get'],
 					},
 				},
-				description: 'The campfire to get. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The campfire to get. Leave empty to use the campfire of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 
 			// ----------------------------------
@@ -1188,20 +1812,18 @@ export class Basecamp implements INodeType {
 				default: 'create',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['campfireLine'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
 				displayName: 'Campfire Name or ID',
@@ -1211,14 +1833,13 @@ export class Basecamp implements INodeType {
 					loadOptionsMethod: 'getCampfires',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
 						resource: ['campfireLine'],
 					},
 				},
-				description: 'The campfire. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The campfire. Leave empty to use the campfire of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Content',
@@ -1235,18 +1856,52 @@ export class Basecamp implements INodeType {
 				description: 'The content of the chat message (supports HTML)',
 			},
 			{
-				displayName: 'Line ID',
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['campfireLine'],
+						operation: ['create'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Mention People Names or IDs',
+						name: 'mentionPersonIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to mention (and notify) in the chat message. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Resolve Inline Mentions',
+						name: 'resolveMentions',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to turn @Full Name and @email tokens in the chat message into mentions of matching project members',
+					},
+				],
+			},
+			{
+				displayName: 'Line',
 				name: 'lineId',
-				type: 'string',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'url', value: '' },
+				modes: recordingLocatorModes(undefined, 'chats/\\d+/lines', 'chats/2/lines'),
 				displayOptions: {
 					show: {
 						resource: ['campfireLine'],
 						operation: ['get', 'delete'],
 					},
 				},
-				description: 'The ID of the campfire line',
+				description: 'The campfire line',
 			},
 			{
 				displayName: 'Return All',
@@ -1303,20 +1958,18 @@ export class Basecamp implements INodeType {
 				default: 'get',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
 						resource: ['cardTable'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
 				displayName: 'Card Table Name or ID',
@@ -1326,7 +1979,6 @@ export class Basecamp implements INodeType {
 					loadOptionsMethod: 'getCardTables',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
@@ -1334,11 +1986,11 @@ export class Basecamp implements INodeType {
 						operation: ['get'],
 					},
 				},
-				description: 'The card table. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The card table. Leave empty to use the card table of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 
 			// ----------------------------------
-			//         Card
+			//         Card Table Column
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -1347,52 +1999,80 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 					},
 				},
 				options: [
+					{
+						name: 'Change Color',
+						value: 'changeColor',
+						description: 'Change the color of a column',
+						action: 'Change the color of a column',
+					},
 					{
 						name: 'Create',
 						value: 'create',
-						description: 'Create a new card',
-						action: 'Create a card',
+						description: 'Create a new column',
+						action: 'Create a column',
 					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a card',
-						action: 'Get a card',
+						description: 'Get a column',
+						action: 'Get a column',
 					},
 					{
-						name: 'Get Many',
-						value: 'getAll',
-						description: 'Get many cards',
-						action: 'Get many cards',
+						name: 'Move',
+						value: 'move',
+						description: 'Move a column to another position',
+						action: 'Move a column',
+					},
+					{
+						name: 'Put On Hold',
+						value: 'putOnHold',
+						description: 'Add an on-hold section to a column',
+						action: 'Put a column on hold',
+					},
+					{
+						name: 'Remove On Hold',
+						value: 'removeOnHold',
+						description: 'Remove the on-hold section of a column',
+						action: 'Remove the on hold section of a column',
+					},
+					{
+						name: 'Subscribe Me',
+						value: 'subscribe',
+						description: 'Subscribe the authenticated user to new cards in a column',
+						action: 'Subscribe me to a column',
+					},
+					{
+						name: 'Unsubscribe Me',
+						value: 'unsubscribe',
+						description: 'Unsubscribe the authenticated user from a column',
+						action: 'Unsubscribe me from a column',
 					},
 					{
 						name: 'Update',
 						value: 'update',
-						description: 'Update a card',
-						action: 'Update a card',
+						description: 'Update the title or description of a column',
+						action: 'Update a column',
 					},
 				],
-				default: 'create',
+				default: 'get',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
 				displayName: 'Card Table Name or ID',
@@ -1402,14 +2082,13 @@ export class Basecamp implements INodeType {
 					loadOptionsMethod: 'getCardTables',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 					},
 				},
-				description: 'The card table. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The card table. Leave empty to use the card table of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Column Name or ID',
@@ -1423,8 +2102,10 @@ export class Basecamp implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['card'],
-						operation: ['create', 'getAll'],
+						resource: ['cardTableColumn'],
+					},
+					hide: {
+						operation: ['create'],
 					},
 				},
 				description: 'The column. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
@@ -1437,25 +2118,11 @@ export class Basecamp implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 						operation: ['create'],
 					},
 				},
-				description: 'Title of the card',
-			},
-			{
-				displayName: 'Card ID',
-				name: 'cardId',
-				type: 'string',
-				required: true,
-				default: '',
-				displayOptions: {
-					show: {
-						resource: ['card'],
-						operation: ['get', 'update'],
-					},
-				},
-				description: 'The ID of the card',
+				description: 'Title of the column',
 			},
 			{
 				displayName: 'Additional Fields',
@@ -1465,24 +2132,17 @@ export class Basecamp implements INodeType {
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 						operation: ['create'],
 					},
 				},
 				options: [
 					{
-						displayName: 'Content',
-						name: 'content',
+						displayName: 'Description',
+						name: 'description',
 						type: 'string',
 						default: '',
-						description: 'Content of the card (supports HTML)',
-					},
-					{
-						displayName: 'Due On',
-						name: 'due_on',
-						type: 'dateTime',
-						default: '',
-						description: 'Due date of the card',
+						description: 'Description of the column',
 					},
 				],
 			},
@@ -1494,67 +2154,105 @@ export class Basecamp implements INodeType {
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['card'],
+						resource: ['cardTableColumn'],
 						operation: ['update'],
 					},
 				},
 				options: [
 					{
-						displayName: 'Title',
-						name: 'title',
+						displayName: 'Description',
+						name: 'description',
 						type: 'string',
 						default: '',
-						description: 'New title for the card',
+						description: 'New description of the column',
 					},
 					{
-						displayName: 'Content',
-						name: 'content',
+						displayName: 'Title',
+						name: 'title',
 						type: 'string',
 						default: '',
-						description: 'New content of the card (supports HTML)',
-					},
-					{
-						displayName: 'Due On',
-						name: 'due_on',
-						type: 'dateTime',
-						default: '',
-						description: 'New due date of the card',
+						description: 'New title of the column',
 					},
 				],
 			},
 			{
-				displayName: 'Return All',
-				name: 'returnAll',
-				type: 'boolean',
+				displayName: 'Color',
+				name: 'color',
+				type: 'options',
+				options: [
+					{
+						name: 'Aqua',
+						value: 'aqua',
+					},
+					{
+						name: 'Blue',
+						value: 'blue',
+					},
+					{
+						name: 'Brown',
+						value: 'brown',
+					},
+					{
+						name: 'Gray',
+						value: 'gray',
+					},
+					{
+						name: 'Green',
+						value: 'green',
+					},
+					{
+						name: 'Orange',
+						value: 'orange',
+					},
+					{
+						name: 'Pink',
+						value: 'pink',
+					},
+					{
+						name: 'Purple',
+						value: 'purple',
+					},
+					{
+						name: 'Red',
+						value: 'red',
+					},
+					{
+						name: 'White',
+						value: 'white',
+					},
+					{
+						name: 'Yellow',
+						value: 'yellow',
+					},
+				],
+				default: 'white',
 				displayOptions: {
 					show: {
-						resource: ['card'],
-						operation: ['getAll'],
+						resource: ['cardTableColumn'],
+						operation: ['changeColor'],
 					},
 				},
-				default: false,
-				description: 'Whether to return all results or only up to a given limit',
+				description: 'The new color of the column',
 			},
 			{
-				displayName: 'Limit',
-				name: 'limit',
+				displayName: 'Position',
+				name: 'position',
 				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
 				displayOptions: {
 					show: {
-						resource: ['card'],
-						operation: ['getAll'],
-						returnAll: [false],
+						resource: ['cardTableColumn'],
+						operation: ['move'],
 					},
 				},
-				typeOptions: {
-					minValue: 1,
-				},
-				default: 50,
-				description: 'Max number of results to return',
+				description: 'Position of the column on the card table, starting at 1 for the leftmost regular column',
 			},
 
 			// ----------------------------------
-			//         Document
+			//         Card
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -1563,69 +2261,102 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 					},
 				},
 				options: [
+					{
+						name: 'Complete',
+						value: 'complete',
+						description: 'Mark a card as completed by moving it to the Done column',
+						action: 'Complete a card',
+					},
 					{
 						name: 'Create',
 						value: 'create',
-						description: 'Create a new document',
-						action: 'Create a document',
+						description: 'Create a new card',
+						action: 'Create a card',
 					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a document',
-						action: 'Get a document',
+						description: 'Get a card',
+						action: 'Get a card',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many documents',
-						action: 'Get many documents',
+						description: 'Get many cards',
+						action: 'Get many cards',
+					},
+					{
+						name: 'Move',
+						value: 'move',
+						description: 'Move a card to another column or position',
+						action: 'Move a card',
+					},
+					{
+						name: 'Uncomplete',
+						value: 'uncomplete',
+						description: 'Mark a card as not completed by moving it out of the Done column',
+						action: 'Uncomplete a card',
 					},
 					{
 						name: 'Update',
 						value: 'update',
-						description: 'Update a document',
-						action: 'Update a document',
+						description: 'Update a card',
+						action: 'Update a card',
 					},
 				],
 				default: 'create',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['card'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Card Table Name or ID',
+				name: 'cardTableId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getProjects',
+					loadOptionsMethod: 'getCardTables',
+					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The card table. Leave empty to use the card table of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Vault Name or ID',
-				name: 'vaultId',
+				displayName: 'Column Name or ID',
+				name: 'columnId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getVaults',
-					loadOptionsDependsOn: ['projectId'],
+					loadOptionsMethod: 'getCardTableColumns',
+					loadOptionsDependsOn: ['cardTableId'],
 				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
+						operation: ['create', 'getAll', 'uncomplete'],
 					},
 				},
-				description: 'The vault (folder). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The column. Uncompleted cards are moved into it. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Title',
@@ -1635,39 +2366,143 @@ export class Basecamp implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 						operation: ['create'],
 					},
 				},
-				description: 'Title of the document',
+				description: 'Title of the card',
 			},
 			{
-				displayName: 'Content',
-				name: 'content',
-				type: 'string',
+				displayName: 'Card',
+				name: 'cardId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchCards', 'card_tables/cards'),
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						operation: ['create'],
+						resource: ['card'],
+						operation: ['complete', 'get', 'move', 'uncomplete', 'update'],
 					},
 				},
-				description: 'Content of the document (supports HTML)',
+				description: 'The card to operate on',
 			},
 			{
-				displayName: 'Document ID',
-				name: 'documentId',
-				type: 'string',
+				displayName: 'Destination',
+				name: 'destination',
+				type: 'options',
+				options: [
+					{
+						name: 'Column',
+						value: 'column',
+						description: 'A column of the card table',
+					},
+					{
+						name: 'Done',
+						value: 'done',
+						description: 'The Done column of the card table',
+					},
+					{
+						name: 'Not Now',
+						value: 'notNow',
+						description: 'The Not Now column of the card table',
+					},
+					{
+						name: 'Triage',
+						value: 'triage',
+						description: 'The Triage column of the card table',
+					},
+				],
+				default: 'column',
+				displayOptions: {
+					show: {
+						resource: ['card'],
+						operation: ['move'],
+					},
+				},
+				description: 'Where to move the card',
+			},
+			{
+				displayName: 'Column Name or ID',
+				name: 'columnId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getCardTableColumns',
+					loadOptionsDependsOn: ['cardTableId'],
+				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						operation: ['get', 'update'],
+						resource: ['card'],
+						operation: ['move'],
+						destination: ['column'],
 					},
 				},
-				description: 'The ID of the document',
+				description: 'The column to move the card to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Position',
+				name: 'position',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				displayOptions: {
+					show: {
+						resource: ['card'],
+						operation: ['move'],
+					},
+				},
+				description: 'Position of the card in the column, starting at 1 for the top',
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['card'],
+						operation: ['create'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Assignee Names or IDs',
+						name: 'assignee_ids',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to assign the card to. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Content',
+						name: 'content',
+						type: 'string',
+						default: '',
+						description: 'Content of the card (supports HTML)',
+					},
+					{
+						displayName: 'Due On',
+						name: 'due_on',
+						type: 'dateTime',
+						default: '',
+						description: 'Due date of the card',
+					},
+					{
+						displayName: 'Notify',
+						name: 'notify',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to notify the assignees',
+					},
+				],
 			},
 			{
 				displayName: 'Update Fields',
@@ -1677,7 +2512,7 @@ export class Basecamp implements INodeType {
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 						operation: ['update'],
 					},
 				},
@@ -1687,14 +2522,39 @@ export class Basecamp implements INodeType {
 						name: 'title',
 						type: 'string',
 						default: '',
-						description: 'New title for the document',
+						description: 'New title for the card',
 					},
 					{
 						displayName: 'Content',
 						name: 'content',
 						type: 'string',
 						default: '',
-						description: 'New content of the document (supports HTML)',
+						description: 'New content of the card (supports HTML)',
+					},
+					{
+						displayName: 'Due On',
+						name: 'due_on',
+						type: 'dateTime',
+						default: '',
+						description: 'New due date of the card',
+					},
+					{
+						displayName: 'Assignee Names or IDs',
+						name: 'assignee_ids',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to assign the card to, replacing the current assignees. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Notify',
+						name: 'notify',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to notify the assignees',
 					},
 				],
 			},
@@ -1704,7 +2564,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 						operation: ['getAll'],
 					},
 				},
@@ -1717,7 +2577,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['card'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -1728,9 +2588,8 @@ export class Basecamp implements INodeType {
 				default: 50,
 				description: 'Max number of results to return',
 			},
-
 			// ----------------------------------
-			//         Event (Activity Log)
+			//         Card Step
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -1739,90 +2598,504 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['event'],
+						resource: ['cardStep'],
 					},
 				},
 				options: [
 					{
-						name: 'Get Many',
-						value: 'getAll',
-						description: 'Get many events from the activity log',
-						action: 'Get many events',
+						name: 'Complete',
+						value: 'complete',
+						description: 'Mark a step as completed',
+						action: 'Complete a step',
+					},
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Add a step to a card',
+						action: 'Create a step',
+					},
+					{
+						name: 'Reposition',
+						value: 'reposition',
+						description: 'Move a step to another position on its card',
+						action: 'Reposition a step',
+					},
+					{
+						name: 'Uncomplete',
+						value: 'uncomplete',
+						description: 'Mark a step as not completed',
+						action: 'Uncomplete a step',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a step',
+						action: 'Update a step',
 					},
 				],
-				default: 'getAll',
+				default: 'create',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['cardStep'],
+					},
 				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Card',
+				name: 'cardId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchCards', 'card_tables/cards'),
 				displayOptions: {
 					show: {
-						resource: ['event'],
+						resource: ['cardStep'],
+						operation: ['create', 'reposition'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The card the step belongs to',
 			},
 			{
-				displayName: 'Return All',
-				name: 'returnAll',
-				type: 'boolean',
+				displayName: 'Step',
+				name: 'stepId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'url', value: '' },
+				modes: recordingLocatorModes(undefined, 'card_tables/steps'),
 				displayOptions: {
 					show: {
-						resource: ['event'],
-						operation: ['getAll'],
+						resource: ['cardStep'],
+						operation: ['complete', 'reposition', 'uncomplete', 'update'],
 					},
 				},
-				default: false,
-				description: 'Whether to return all results or only up to a given limit',
+				description: 'The step to operate on',
 			},
 			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				required: true,
+				default: '',
 				displayOptions: {
 					show: {
-						resource: ['event'],
-						operation: ['getAll'],
-						returnAll: [false],
+						resource: ['cardStep'],
+						operation: ['create'],
 					},
 				},
+				description: 'Title of the step',
+			},
+			{
+				displayName: 'Position',
+				name: 'position',
+				type: 'number',
 				typeOptions: {
 					minValue: 1,
 				},
-				default: 50,
-				description: 'Max number of results to return',
+				default: 1,
+				displayOptions: {
+					show: {
+						resource: ['cardStep'],
+						operation: ['reposition'],
+					},
+				},
+				description: 'Position of the step on the card, starting at 1 for the first step',
 			},
-
-			// ----------------------------------
-			//         Person
-			// ----------------------------------
 			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
 				displayOptions: {
 					show: {
-						resource: ['person'],
+						resource: ['cardStep'],
+						operation: ['create'],
 					},
 				},
 				options: [
 					{
-						name: 'Get',
-						value: 'get',
-						description: 'Get a person',
-						action: 'Get a person',
+						displayName: 'Assignee Names or IDs',
+						name: 'assignee_ids',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to assign the step to. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 					},
 					{
-						name: 'Get Many',
-						value: 'getAll',
-						description: 'Get many people',
+						displayName: 'Due On',
+						name: 'due_on',
+						type: 'dateTime',
+						default: '',
+						description: 'Due date of the step',
+					},
+				],
+			},
+			{
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['cardStep'],
+						operation: ['update'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Assignee Names or IDs',
+						name: 'assignee_ids',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to assign the step to, replacing the current assignees. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Due On',
+						name: 'due_on',
+						type: 'dateTime',
+						default: '',
+						description: 'New due date of the step',
+					},
+					{
+						displayName: 'Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+						description: 'New title of the step',
+					},
+				],
+			},
+
+			// ----------------------------------
+			//         Document
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['document'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new document',
+						action: 'Create a document',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a document',
+						action: 'Get a document',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many documents',
+						action: 'Get many documents',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a document',
+						action: 'Update a document',
+					},
+				],
+				default: 'create',
+			},
+			{
+				displayName: 'Project',
+				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['document'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Vault Name or ID',
+				name: 'vaultId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getVaults',
+					loadOptionsDependsOn: ['projectId'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+					},
+				},
+				description: 'The vault (folder). Leave empty to use the root vault of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['create'],
+					},
+				},
+				description: 'Title of the document',
+			},
+			{
+				displayName: 'Content',
+				name: 'content',
+				type: 'string',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['create'],
+					},
+				},
+				description: 'Content of the document (supports HTML)',
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['create'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Attachment SGIDs',
+						name: 'attachmentSgids',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated attachable SGIDs (from Attachment → Create) to embed in the document',
+					},
+					{
+						displayName: 'Mention People Names or IDs',
+						name: 'mentionPersonIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'People to mention (and notify) in the document. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Resolve Inline Mentions',
+						name: 'resolveMentions',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to turn @Full Name and @email tokens in the document into mentions of matching project members',
+					},
+				],
+			},
+			{
+				displayName: 'Document',
+				name: 'documentId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchDocuments', 'documents'),
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['get', 'update'],
+					},
+				},
+				description: 'The document to operate on',
+			},
+			{
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['update'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+						description: 'New title for the document',
+					},
+					{
+						displayName: 'Content',
+						name: 'content',
+						type: 'string',
+						default: '',
+						description: 'New content of the document (supports HTML)',
+					},
+					{
+						displayName: 'Attachment SGIDs',
+						name: 'attachmentSgids',
+						type: 'string',
+						default: '',
+						description: 'Comma-separated attachable SGIDs (from Attachment → Create) to embed after the new content',
+					},
+				],
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+
+			// ----------------------------------
+			//         Event (Activity Log)
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['event'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many events from the activity log',
+						action: 'Get many events',
+					},
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Project',
+				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['event'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['event'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['event'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+
+			// ----------------------------------
+			//         Person
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['person'],
+					},
+				},
+				options: [
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a person',
+						action: 'Get a person',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many people',
 						action: 'Get many people',
 					},
 					{
@@ -1835,21 +3108,227 @@ export class Basecamp implements INodeType {
 				default: 'getAll',
 			},
 			{
-				displayName: 'Person Name or ID',
+				displayName: 'Person',
 				name: 'personId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: personLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['person'],
+						operation: ['get'],
+					},
+				},
+				description: 'The person to get',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['person'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['person'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+
+			// ----------------------------------
+			//         Question (Check-in)
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['question'],
+					},
+				},
+				options: [
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a question',
+						action: 'Get a question',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many questions',
+						action: 'Get many questions',
+					},
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Project',
+				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['question'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Questionnaire Name or ID',
+				name: 'questionnaireId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getQuestionnaires',
+					loadOptionsDependsOn: ['projectId'],
+				},
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['question'],
+					},
+				},
+				description: 'The questionnaire. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Question',
+				name: 'questionId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchQuestions', 'questions'),
+				displayOptions: {
+					show: {
+						resource: ['question'],
+						operation: ['get'],
+					},
+				},
+				description: 'The question',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['question'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['question'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+
+			// ----------------------------------
+			//         Question Answer
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['questionAnswer'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many question answers',
+						action: 'Get many question answers',
+					},
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Project',
+				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['questionAnswer'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Questionnaire Name or ID',
+				name: 'questionnaireId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getQuestionnaires',
+					loadOptionsDependsOn: ['projectId'],
+				},
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['questionAnswer'],
+					},
+				},
+				description: 'The questionnaire. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Question Name or ID',
+				name: 'questionId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getPeople',
+					loadOptionsMethod: 'getQuestions',
+					loadOptionsDependsOn: ['questionnaireId'],
 				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['person'],
-						operation: ['get'],
+						resource: ['questionAnswer'],
 					},
 				},
-				description: 'The person to get. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The question. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Return All',
@@ -1857,7 +3336,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['person'],
+						resource: ['questionAnswer'],
 						operation: ['getAll'],
 					},
 				},
@@ -1870,7 +3349,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['person'],
+						resource: ['questionAnswer'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -1883,7 +3362,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Question (Check-in)
+			//         Schedule Entry
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -1892,75 +3371,202 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['question'],
+						resource: ['scheduleEntry'],
 					},
 				},
 				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new schedule entry',
+						action: 'Create a schedule entry',
+					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a question',
-						action: 'Get a question',
+						description: 'Get a schedule entry',
+						action: 'Get a schedule entry',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many questions',
-						action: 'Get many questions',
+						description: 'Get many schedule entries',
+						action: 'Get many schedule entries',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a schedule entry',
+						action: 'Update a schedule entry',
 					},
 				],
-				default: 'getAll',
+				default: 'create',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
-						resource: ['question'],
+						resource: ['scheduleEntry'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
-				displayName: 'Questionnaire Name or ID',
-				name: 'questionnaireId',
+				displayName: 'Schedule Name or ID',
+				name: 'scheduleId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getQuestionnaires',
+					loadOptionsMethod: 'getSchedules',
 					loadOptionsDependsOn: ['projectId'],
 				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['scheduleEntry'],
+					},
+				},
+				description: 'The schedule. Leave empty to use the schedule of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Summary',
+				name: 'summary',
+				type: 'string',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['question'],
+						resource: ['scheduleEntry'],
+						operation: ['create'],
 					},
 				},
-				description: 'The questionnaire. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'Summary of the schedule entry',
 			},
 			{
-				displayName: 'Question Name or ID',
-				name: 'questionId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getQuestions',
-					loadOptionsDependsOn: ['questionnaireId'],
+				displayName: 'Starts At',
+				name: 'startsAt',
+				type: 'dateTime',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['scheduleEntry'],
+						operation: ['create'],
+					},
 				},
+				description: 'Start date/time of the schedule entry',
+			},
+			{
+				displayName: 'Ends At',
+				name: 'endsAt',
+				type: 'dateTime',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['question'],
-						operation: ['get'],
+						resource: ['scheduleEntry'],
+						operation: ['create'],
 					},
 				},
-				description: 'The question. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'End date/time of the schedule entry',
+			},
+			{
+				displayName: 'Schedule Entry',
+				name: 'scheduleEntryId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchScheduleEntries', 'schedule_entries'),
+				displayOptions: {
+					show: {
+						resource: ['scheduleEntry'],
+						operation: ['get', 'update'],
+					},
+				},
+				description: 'The schedule entry',
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['scheduleEntry'],
+						operation: ['create'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'Description of the schedule entry (supports HTML)',
+					},
+					{
+						displayName: 'All Day',
+						name: 'all_day',
+						type: 'boolean',
+						default: false,
+						description: 'Whether this is an all-day event',
+					},
+				],
+			},
+			{
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['scheduleEntry'],
+						operation: ['update'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Summary',
+						name: 'summary',
+						type: 'string',
+						default: '',
+						description: 'New summary for the schedule entry',
+					},
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'New description (supports HTML)',
+					},
+					{
+						displayName: 'Starts At',
+						name: 'starts_at',
+						type: 'dateTime',
+						default: '',
+						description: 'New start date/time',
+					},
+					{
+						displayName: 'Ends At',
+						name: 'ends_at',
+						type: 'dateTime',
+						default: '',
+						description: 'New end date/time',
+					},
+					{
+						displayName: 'All Day',
+						name: 'all_day',
+						type: 'boolean',
+						default: false,
+						description: 'Whether this is an all-day event',
+					},
+				],
 			},
 			{
 				displayName: 'Return All',
@@ -1968,7 +3574,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['question'],
+						resource: ['scheduleEntry'],
 						operation: ['getAll'],
 					},
 				},
@@ -1981,7 +3587,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['question'],
+						resource: ['scheduleEntry'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -1994,7 +3600,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Question Answer
+			//         Template
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2003,68 +3609,83 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
 					},
 				},
 				options: [
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a template',
+						action: 'Get a template',
+					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many question answers',
-						action: 'Get many question answers',
+						description: 'Get many templates',
+						action: 'Get many templates',
+					},
+					{
+						name: 'Create Project',
+						value: 'createProject',
+						description: 'Create a project from a template',
+						action: 'Create project from template',
 					},
 				],
 				default: 'getAll',
 			},
 			{
-				displayName: 'Project Name or ID',
-				name: 'projectId',
+				displayName: 'Template Name or ID',
+				name: 'templateId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getProjects',
+					loadOptionsMethod: 'getTemplates',
 				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
+						operation: ['get', 'createProject'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The template. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Questionnaire Name or ID',
-				name: 'questionnaireId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getQuestionnaires',
-					loadOptionsDependsOn: ['projectId'],
-				},
+				displayName: 'Project Name',
+				name: 'name',
+				type: 'string',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
+						operation: ['createProject'],
 					},
 				},
-				description: 'The questionnaire. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'Name of the new project',
 			},
 			{
-				displayName: 'Question Name or ID',
-				name: 'questionId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getQuestions',
-					loadOptionsDependsOn: ['questionnaireId'],
-				},
-				required: true,
-				default: '',
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
+						operation: ['createProject'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'Description of the new project',
 					},
-				},
-				description: 'The question. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				],
 			},
 			{
 				displayName: 'Return All',
@@ -2072,7 +3693,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
 						operation: ['getAll'],
 					},
 				},
@@ -2085,7 +3706,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['questionAnswer'],
+						resource: ['template'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -2098,7 +3719,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Schedule Entry
+			//         Attachment
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2107,204 +3728,205 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['attachment'],
 					},
 				},
 				options: [
 					{
 						name: 'Create',
 						value: 'create',
-						description: 'Create a new schedule entry',
-						action: 'Create a schedule entry',
+						description: 'Upload a file and get an attachable SGID to embed in rich text or file into a vault',
+						action: 'Create an attachment',
+					},
+				],
+				default: 'create',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				default: 'data',
+				displayOptions: {
+					show: {
+						resource: ['attachment'],
+						operation: ['create'],
+					},
+				},
+				description: 'The name of the input binary field containing the file to upload',
+			},
+
+			// ----------------------------------
+			//         Upload (File)
+			// ----------------------------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['upload'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Upload a file into a vault',
+						action: 'Create an upload',
+					},
+					{
+						name: 'Download',
+						value: 'download',
+						description: 'Download the file of an upload',
+						action: 'Download an upload',
 					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a schedule entry',
-						action: 'Get a schedule entry',
+						description: 'Get an upload',
+						action: 'Get an upload',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many schedule entries',
-						action: 'Get many schedule entries',
-					},
-					{
-						name: 'Update',
-						value: 'update',
-						description: 'Update a schedule entry',
-						action: 'Update a schedule entry',
+						description: 'Get many uploads',
+						action: 'Get many uploads',
 					},
 				],
-				default: 'create',
+				default: 'getAll',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project',
 			},
 			{
-				displayName: 'Schedule Name or ID',
-				name: 'scheduleId',
+				displayName: 'Vault Name or ID',
+				name: 'vaultId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getSchedules',
+					loadOptionsMethod: 'getVaults',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
+						operation: ['create', 'getAll'],
 					},
 				},
-				description: 'The schedule. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The vault (folder). Leave empty to use the root vault of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Summary',
-				name: 'summary',
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
 				type: 'string',
 				required: true,
-				default: '',
+				default: 'data',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
 						operation: ['create'],
 					},
 				},
-				description: 'Summary of the schedule entry',
+				description: 'The name of the input binary field containing the file to upload',
 			},
 			{
-				displayName: 'Starts At',
-				name: 'startsAt',
-				type: 'dateTime',
-				required: true,
-				default: '',
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
 						operation: ['create'],
 					},
 				},
-				description: 'Start date/time of the schedule entry',
+				options: [
+					{
+						displayName: 'Base Name',
+						name: 'base_name',
+						type: 'string',
+						default: '',
+						description: 'File name without extension to show in Basecamp. Defaults to the name of the uploaded file.',
+					},
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+						description: 'Description of the upload (supports HTML)',
+					},
+				],
 			},
 			{
-				displayName: 'Ends At',
-				name: 'endsAt',
-				type: 'dateTime',
+				displayName: 'Upload',
+				name: 'uploadId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchUploads', 'uploads'),
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
-						operation: ['create'],
+						resource: ['upload'],
+						operation: ['get', 'download'],
 					},
 				},
-				description: 'End date/time of the schedule entry',
+				description: 'The upload to operate on',
 			},
 			{
-				displayName: 'Schedule Entry ID',
-				name: 'scheduleEntryId',
-				type: 'string',
-				required: true,
-				default: '',
+				displayName: 'Download Files',
+				name: 'download',
+				type: 'boolean',
+				default: false,
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
-						operation: ['get', 'update'],
+						resource: ['upload'],
+						operation: ['getAll'],
 					},
 				},
-				description: 'The ID of the schedule entry',
+				description: 'Whether to download the file of every returned upload as binary data',
 			},
 			{
-				displayName: 'Additional Fields',
-				name: 'additionalFields',
-				type: 'collection',
-				placeholder: 'Add Field',
-				default: {},
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				default: 'data',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
-						operation: ['create'],
+						resource: ['upload'],
+						operation: ['download'],
 					},
 				},
-				options: [
-					{
-						displayName: 'Description',
-						name: 'description',
-						type: 'string',
-						default: '',
-						description: 'Description of the schedule entry (supports HTML)',
-					},
-					{
-						displayName: 'All Day',
-						name: 'all_day',
-						type: 'boolean',
-						default: false,
-						description: 'Whether this is an all-day event',
-					},
-				],
+				description: 'The name of the output binary field to put the file in',
 			},
 			{
-				displayName: 'Update Fields',
-				name: 'updateFields',
-				type: 'collection',
-				placeholder: 'Add Field',
-				default: {},
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				default: 'data',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
-						operation: ['update'],
+						resource: ['upload'],
+						operation: ['getAll'],
+						download: [true],
 					},
 				},
-				options: [
-					{
-						displayName: 'Summary',
-						name: 'summary',
-						type: 'string',
-						default: '',
-						description: 'New summary for the schedule entry',
-					},
-					{
-						displayName: 'Description',
-						name: 'description',
-						type: 'string',
-						default: '',
-						description: 'New description (supports HTML)',
-					},
-					{
-						displayName: 'Starts At',
-						name: 'starts_at',
-						type: 'dateTime',
-						default: '',
-						description: 'New start date/time',
-					},
-					{
-						displayName: 'Ends At',
-						name: 'ends_at',
-						type: 'dateTime',
-						default: '',
-						description: 'New end date/time',
-					},
-					{
-						displayName: 'All Day',
-						name: 'all_day',
-						type: 'boolean',
-						default: false,
-						description: 'Whether this is an all-day event',
-					},
-				],
+				description: 'The name of the output binary field to put the files in',
 			},
 			{
 				displayName: 'Return All',
@@ -2312,7 +3934,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
 						operation: ['getAll'],
 					},
 				},
@@ -2325,7 +3947,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['scheduleEntry'],
+						resource: ['upload'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -2338,7 +3960,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Template
+			//         Vault (Folder)
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2347,81 +3969,116 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['template'],
+						resource: ['vault'],
 					},
 				},
 				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new vault (folder)',
+						action: 'Create a vault',
+					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a template',
-						action: 'Get a template',
+						description: 'Get a vault',
+						action: 'Get a vault',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many templates',
-						action: 'Get many templates',
+						description: 'Get many vaults',
+						action: 'Get many vaults',
 					},
 					{
-						name: 'Create Project',
-						value: 'createProject',
-						description: 'Create a project from a template',
-						action: 'Create project from template',
+						name: 'Update',
+						value: 'update',
+						description: 'Update a vault',
+						action: 'Update a vault',
 					},
 				],
 				default: 'getAll',
 			},
 			{
-				displayName: 'Template Name or ID',
-				name: 'templateId',
+				displayName: 'Project',
+				name: 'projectId',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['vault'],
+					},
+				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Parent Vault Name or ID',
+				name: 'parentVaultId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getTemplates',
+					loadOptionsMethod: 'getVaults',
+					loadOptionsDependsOn: ['projectId'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['vault'],
+						operation: ['create', 'getAll'],
+					},
 				},
+				description: 'The parent vault. Leave empty to use the root vault of the project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['template'],
-						operation: ['get', 'createProject'],
+						resource: ['vault'],
+						operation: ['create'],
 					},
 				},
-				description: 'The template. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'Title of the vault',
 			},
 			{
-				displayName: 'Project Name',
-				name: 'name',
-				type: 'string',
+				displayName: 'Vault',
+				name: 'vaultId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchVaults', 'vaults'),
 				displayOptions: {
 					show: {
-						resource: ['template'],
-						operation: ['createProject'],
+						resource: ['vault'],
+						operation: ['get', 'update'],
 					},
 				},
-				description: 'Name of the new project',
+				description: 'The vault (folder)',
 			},
 			{
-				displayName: 'Additional Fields',
-				name: 'additionalFields',
+				displayName: 'Update Fields',
+				name: 'updateFields',
 				type: 'collection',
 				placeholder: 'Add Field',
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['template'],
-						operation: ['createProject'],
+						resource: ['vault'],
+						operation: ['update'],
 					},
 				},
 				options: [
 					{
-						displayName: 'Description',
-						name: 'description',
+						displayName: 'Title',
+						name: 'title',
 						type: 'string',
 						default: '',
-						description: 'Description of the new project',
+						description: 'New title for the vault',
 					},
 				],
 			},
@@ -2431,7 +4088,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['template'],
+						resource: ['vault'],
 						operation: ['getAll'],
 					},
 				},
@@ -2444,7 +4101,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['template'],
+						resource: ['vault'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -2457,7 +4114,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Upload (File)
+			//         Webhook
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2466,72 +4123,126 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['upload'],
+						resource: ['webhook'],
 					},
 				},
 				options: [
 					{
-						name: 'Get',
-						value: 'get',
-						description: 'Get an upload',
-						action: 'Get an upload',
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new webhook',
+						action: 'Create a webhook',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a webhook',
+						action: 'Delete a webhook',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many uploads',
-						action: 'Get many uploads',
+						description: 'Get many webhooks',
+						action: 'Get many webhooks',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a webhook',
+						action: 'Update a webhook',
 					},
 				],
-				default: 'getAll',
+				default: 'create',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+					},
 				},
+				description: 'The project',
+			},
+			{
+				displayName: 'Payload URL',
+				name: 'payloadUrl',
+				type: 'string',
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['upload'],
+						resource: ['webhook'],
+						operation: ['create'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The URL to send webhook payloads to',
 			},
 			{
-				displayName: 'Vault Name or ID',
-				name: 'vaultId',
+				displayName: 'Event Types',
+				name: 'types',
+				type: 'multiOptions',
+				required: true,
+				default: [],
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['create', 'update'],
+					},
+				},
+				options: webhookEventTypes,
+				description: 'The types of events to subscribe to',
+			},
+			{
+				displayName: 'Webhook Name or ID',
+				name: 'webhookId',
 				type: 'options',
 				typeOptions: {
-					loadOptionsMethod: 'getVaults',
+					loadOptionsMethod: 'getWebhooks',
 					loadOptionsDependsOn: ['projectId'],
 				},
 				required: true,
 				default: '',
 				displayOptions: {
 					show: {
-						resource: ['upload'],
-						operation: ['getAll'],
+						resource: ['webhook'],
+						operation: ['delete', 'update'],
 					},
 				},
-				description: 'The vault (folder). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The webhook. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Upload ID',
-				name: 'uploadId',
-				type: 'string',
-				required: true,
-				default: '',
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
 				displayOptions: {
 					show: {
-						resource: ['upload'],
-						operation: ['get'],
+						resource: ['webhook'],
+						operation: ['update'],
 					},
 				},
-				description: 'The ID of the upload',
+				options: [
+					{
+						displayName: 'Payload URL',
+						name: 'payload_url',
+						type: 'string',
+						default: '',
+						description: 'New payload URL',
+					},
+					{
+						displayName: 'Active',
+						name: 'active',
+						type: 'boolean',
+						default: true,
+						description: 'Whether the webhook is active',
+					},
+				],
 			},
 			{
 				displayName: 'Return All',
@@ -2539,7 +4250,7 @@ export class Basecamp implements INodeType {
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['upload'],
+						resource: ['webhook'],
 						operation: ['getAll'],
 					},
 				},
@@ -2552,7 +4263,7 @@ export class Basecamp implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['upload'],
+						resource: ['webhook'],
 						operation: ['getAll'],
 						returnAll: [false],
 					},
@@ -2565,7 +4276,7 @@ export class Basecamp implements INodeType {
 			},
 
 			// ----------------------------------
-			//         Vault (Folder)
+			//         Recording
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2574,154 +4285,207 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['vault'],
+						resource: ['recording'],
 					},
 				},
 				options: [
 					{
-						name: 'Create',
-						value: 'create',
-						description: 'Create a new vault (folder)',
-						action: 'Create a vault',
-					},
-					{
-						name: 'Get',
-						value: 'get',
-						description: 'Get a vault',
-						action: 'Get a vault',
+						name: 'Archive',
+						value: 'archive',
+						description: 'Archive a recording',
+						action: 'Archive a recording',
 					},
 					{
 						name: 'Get Many',
 						value: 'getAll',
-						description: 'Get many vaults',
-						action: 'Get many vaults',
+						description: 'Get many recordings of a type across projects',
+						action: 'Get many recordings',
 					},
 					{
-						name: 'Update',
-						value: 'update',
-						description: 'Update a vault',
-						action: 'Update a vault',
+						name: 'Trash',
+						value: 'trash',
+						description: 'Move a recording to the trash',
+						action: 'Trash a recording',
+					},
+					{
+						name: 'Unarchive',
+						value: 'unarchive',
+						description: 'Make an archived or trashed recording active again',
+						action: 'Unarchive a recording',
 					},
 				],
-				default: 'getAll',
+				default: 'archive',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
+				type: 'resourceLocator',
+				required: true,
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
+				displayOptions: {
+					show: {
+						resource: ['recording'],
+						operation: ['archive', 'trash', 'unarchive'],
+					},
 				},
+				description: 'The project containing the recording',
+			},
+			{
+				displayName: 'Recording',
+				name: 'recordingId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchAnyRecordings', ''),
 				displayOptions: {
 					show: {
-						resource: ['vault'],
+						resource: ['recording'],
+						operation: ['archive', 'trash', 'unarchive'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The recording (to-do, message, card, document, etc.) to change the status of',
 			},
 			{
-				displayName: 'Parent Vault Name or ID',
-				name: 'parentVaultId',
+				displayName: 'Type',
+				name: 'type',
 				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getVaults',
-					loadOptionsDependsOn: ['projectId'],
-				},
 				required: true,
-				default: '',
+				options: [
+					{ name: 'Card', value: 'Kanban::Card' },
+					{ name: 'Card Step', value: 'Kanban::Step' },
+					{ name: 'Comment', value: 'Comment' },
+					{ name: 'Document', value: 'Document' },
+					{ name: 'Message', value: 'Message' },
+					{ name: 'Question Answer', value: 'Question::Answer' },
+					{ name: 'Schedule Entry', value: 'Schedule::Entry' },
+					{ name: 'To-Do', value: 'Todo' },
+					{ name: 'To-Do List', value: 'Todolist' },
+					{ name: 'Upload', value: 'Upload' },
+					{ name: 'Vault', value: 'Vault' },
+				],
+				default: 'Todo',
 				displayOptions: {
 					show: {
-						resource: ['vault'],
-						operation: ['create', 'getAll'],
+						resource: ['recording'],
+						operation: ['getAll'],
 					},
 				},
-				description: 'The parent vault. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The type of recordings to get',
 			},
 			{
-				displayName: 'Title',
-				name: 'title',
-				type: 'string',
-				required: true,
-				default: '',
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['vault'],
-						operation: ['create'],
+						resource: ['recording'],
+						operation: ['getAll'],
 					},
 				},
-				description: 'Title of the vault',
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
 			},
 			{
-				displayName: 'Vault ID',
-				name: 'vaultId',
-				type: 'string',
-				required: true,
-				default: '',
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
 				displayOptions: {
 					show: {
-						resource: ['vault'],
-						operation: ['get', 'update'],
+						resource: ['recording'],
+						operation: ['getAll'],
+						returnAll: [false],
 					},
 				},
-				description: 'The ID of the vault',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
 			},
 			{
-				displayName: 'Update Fields',
-				name: 'updateFields',
+				displayName: 'Filters',
+				name: 'filters',
 				type: 'collection',
-				placeholder: 'Add Field',
+				placeholder: 'Add Filter',
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['vault'],
-						operation: ['update'],
+						resource: ['recording'],
+						operation: ['getAll'],
 					},
 				},
 				options: [
 					{
-						displayName: 'Title',
-						name: 'title',
-						type: 'string',
-						default: '',
-						description: 'New title for the vault',
+						displayName: 'Project Names or IDs',
+						name: 'bucket',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getProjects',
+						},
+						default: [],
+						description: 'Only return recordings of these projects. All active projects when empty. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 					},
-				],
-			},
-			{
-				displayName: 'Return All',
-				name: 'returnAll',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						resource: ['vault'],
-						operation: ['getAll'],
+					{
+						displayName: 'Status',
+						name: 'status',
+						type: 'options',
+						options: [
+							{
+								name: 'Active',
+								value: 'active',
+							},
+							{
+								name: 'Archived',
+								value: 'archived',
+							},
+							{
+								name: 'Trashed',
+								value: 'trashed',
+							},
+						],
+						default: 'active',
+						description: 'Filter by status',
 					},
-				},
-				default: false,
-				description: 'Whether to return all results or only up to a given limit',
-			},
-			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
-				displayOptions: {
-					show: {
-						resource: ['vault'],
-						operation: ['getAll'],
-						returnAll: [false],
+					{
+						displayName: 'Sort',
+						name: 'sort',
+						type: 'options',
+						options: [
+							{
+								name: 'Created At',
+								value: 'created_at',
+							},
+							{
+								name: 'Updated At',
+								value: 'updated_at',
+							},
+						],
+						default: 'created_at',
+						description: 'Field to sort the recordings by',
 					},
-				},
-				typeOptions: {
-					minValue: 1,
-				},
-				default: 50,
-				description: 'Max number of results to return',
+					{
+						displayName: 'Direction',
+						name: 'direction',
+						type: 'options',
+						options: [
+							{
+								name: 'Descending',
+								value: 'desc',
+							},
+							{
+								name: 'Ascending',
+								value: 'asc',
+							},
+						],
+						default: 'desc',
+						description: 'Sort direction',
+					},
+				],
 			},
 
 			// ----------------------------------
-			//         Webhook
+			//         Subscription
 			// ----------------------------------
 			{
 				displayName: 'Operation',
@@ -2730,176 +4494,184 @@ export class Basecamp implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['webhook'],
+						resource: ['subscription'],
 					},
 				},
 				options: [
 					{
-						name: 'Create',
-						value: 'create',
-						description: 'Create a new webhook',
-						action: 'Create a webhook',
+						name: 'Get',
+						value: 'get',
+						description: 'Get the subscribers of a recording',
+						action: 'Get the subscription of a recording',
 					},
 					{
-						name: 'Delete',
-						value: 'delete',
-						description: 'Delete a webhook',
-						action: 'Delete a webhook',
+						name: 'Subscribe Me',
+						value: 'subscribe',
+						description: 'Subscribe the authenticated user to a recording',
+						action: 'Subscribe me to a recording',
 					},
 					{
-						name: 'Get Many',
-						value: 'getAll',
-						description: 'Get many webhooks',
-						action: 'Get many webhooks',
+						name: 'Unsubscribe Me',
+						value: 'unsubscribe',
+						description: 'Unsubscribe the authenticated user from a recording',
+						action: 'Unsubscribe me from a recording',
 					},
 					{
 						name: 'Update',
 						value: 'update',
-						description: 'Update a webhook',
-						action: 'Update a webhook',
+						description: 'Subscribe or unsubscribe people',
+						action: 'Update the subscription of a recording',
 					},
 				],
-				default: 'create',
+				default: 'get',
 			},
 			{
-				displayName: 'Project Name or ID',
+				displayName: 'Project',
 				name: 'projectId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getProjects',
-				},
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: projectLocatorModes,
 				displayOptions: {
 					show: {
-						resource: ['webhook'],
+						resource: ['subscription'],
 					},
 				},
-				description: 'The project. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'The project containing the recording',
 			},
 			{
-				displayName: 'Payload URL',
-				name: 'payloadUrl',
-				type: 'string',
+				displayName: 'Recording',
+				name: 'recordingId',
+				type: 'resourceLocator',
 				required: true,
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: recordingLocatorModes('searchAnyRecordings', ''),
 				displayOptions: {
 					show: {
-						resource: ['webhook'],
-						operation: ['create'],
+						resource: ['subscription'],
 					},
 				},
-				description: 'The URL to send webhook payloads to',
+				description: 'The recording (to-do, message, etc.) whose subscribers get notified',
 			},
 			{
-				displayName: 'Event Types',
-				name: 'types',
+				displayName: 'People to Subscribe Names or IDs',
+				name: 'subscriptions',
 				type: 'multiOptions',
-				required: true,
+				typeOptions: {
+					loadOptionsMethod: 'getPeople',
+					loadOptionsDependsOn: ['projectId'],
+				},
 				default: [],
 				displayOptions: {
 					show: {
-						resource: ['webhook'],
-						operation: ['create', 'update'],
+						resource: ['subscription'],
+						operation: ['update'],
 					},
 				},
-				options: [
-					{ name: 'All', value: 'all' },
-					{ name: 'Card Created', value: 'Card.created' },
-					{ name: 'Card Updated', value: 'Card.updated' },
-					{ name: 'Card Archived', value: 'Card.archived' },
-					{ name: 'Comment Created', value: 'Comment.created' },
-					{ name: 'Document Created', value: 'Document.created' },
-					{ name: 'Document Updated', value: 'Document.updated' },
-					{ name: 'Message Created', value: 'Message.created' },
-					{ name: 'Todo Created', value: 'Todo.created' },
-					{ name: 'Todo Completed', value: 'Todo.completed' },
-					{ name: 'Todolist Created', value: 'Todolist.created' },
-					{ name: 'Upload Created', value: 'Upload.created' },
-				],
-				description: 'The types of events to subscribe to',
+				description: 'People to subscribe to the recording. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Webhook Name or ID',
-				name: 'webhookId',
-				type: 'options',
+				displayName: 'People to Unsubscribe Names or IDs',
+				name: 'unsubscriptions',
+				type: 'multiOptions',
 				typeOptions: {
-					loadOptionsMethod: 'getWebhooks',
+					loadOptionsMethod: 'getPeople',
 					loadOptionsDependsOn: ['projectId'],
 				},
-				required: true,
-				default: '',
+				default: [],
 				displayOptions: {
 					show: {
-						resource: ['webhook'],
-						operation: ['delete', 'update'],
+						resource: ['subscription'],
+						operation: ['update'],
 					},
 				},
-				description: 'The webhook. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				description: 'People to unsubscribe from the recording. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
+
+			// ----------------------------------
+			//         Content Format
+			// ----------------------------------
 			{
-				displayName: 'Update Fields',
-				name: 'updateFields',
-				type: 'collection',
-				placeholder: 'Add Field',
-				default: {},
-				displayOptions: {
-					show: {
-						resource: ['webhook'],
-						operation: ['update'],
-					},
-				},
+				displayName: 'Content Format',
+				name: 'contentFormat',
+				type: 'options',
 				options: [
 					{
-						displayName: 'Payload URL',
-						name: 'payload_url',
-						type: 'string',
-						default: '',
-						description: 'New payload URL',
+						name: 'HTML',
+						value: 'html',
+						description: 'Content is HTML, tags Basecamp does not support are stripped',
 					},
 					{
-						displayName: 'Active',
-						name: 'active',
-						type: 'boolean',
-						default: true,
-						description: 'Whether the webhook is active',
+						name: 'Markdown',
+						value: 'markdown',
+						description: 'Convert Markdown into Basecamp rich text',
+					},
+					{
+						name: 'Plain Text',
+						value: 'plain',
+						description: 'Send the content as text, keeping line breaks',
+					},
+					{
+						name: 'Raw',
+						value: 'raw',
+						description: 'Send the content as given, without any conversion',
 					},
 				],
-			},
-			{
-				displayName: 'Return All',
-				name: 'returnAll',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						resource: ['webhook'],
-						operation: ['getAll'],
+				default: 'raw',
+				displayOptions: {
+					show: {
+						resource: [
+							'campfireLine',
+							'card',
+							'comment',
+							'document',
+							'message',
+							'scheduleEntry',
+							'todo',
+							'todolist',
+						],
+						operation: ['create', 'update'],
 					},
 				},
-				default: false,
-				description: 'Whether to return all results or only up to a given limit',
+				description: 'The format of the content, description and other rich text fields',
 			},
+
+			// ----------------------------------
+			//         Request Options
+			// ----------------------------------
 			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
-				displayOptions: {
-					show: {
-						resource: ['webhook'],
-						operation: ['getAll'],
-						returnAll: [false],
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Max Retries',
+						name: 'maxRetries',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 3,
+						description: 'How many times to retry a request that was rate limited (429) or hit a temporary server error (502/503/504). Non-idempotent requests are only retried on 429.',
 					},
-				},
-				typeOptions: {
-					minValue: 1,
-				},
-				default: 50,
-				description: 'Max number of results to return',
+					{
+						displayName: 'Throttle Requests',
+						name: 'throttle',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to pace requests to stay within the Basecamp limit of 50 requests per 10 seconds per account',
+					},
+				],
 			},
-		],
+		]),
 	};
 
 	methods = {
+		credentialTest: {
+			basecampCredentialTest,
+		},
 		loadOptions: {
 			getAccounts,
 			getCampfires,
@@ -2914,12 +4686,27 @@ export class Basecamp implements INodeType {
 			getQuestionnaires,
 			getSchedules,
 			getTemplates,
+			getTodolistGroups,
 			getTodolists,
 			getTodosets,
 			getUploads,
 			getVaults,
 			getWebhooks,
 		},
+		listSearch: {
+			searchAnyRecordings,
+			searchCards,
+			searchDocuments,
+			searchMessages,
+			searchPeople,
+			searchProjects,
+			searchQuestions,
+			searchScheduleEntries,
+			searchTodolists,
+			searchTodos,
+			searchUploads,
+			searchVaults,
+		},
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
@@ -2958,7 +4745,7 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'delete') {
-						const projectId = this.getNodeParameter('projectId', i) as string;
+						const projectId = getProjectId.call(this, i);
 
 						responseData = await basecampApiRequest.call(
 							this,
@@ -2972,7 +4759,7 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const projectId = this.getNodeParameter('projectId', i) as string;
+						const projectId = getProjectId.call(this, i);
 
 						responseData = await basecampApiRequest.call(
 							this,
@@ -3011,68 +4798,187 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const projectId = this.getNodeParameter('projectId', i) as string;
+						const projectId = getProjectId.call(this, i);
+						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/projects/${projectId}.json`,
+							updateFields,
+							{},
+							accountId,
+						);
+					}
+				}
+
+				if (resource === 'todolist') {
+					// ----------------------------------
+					//         todolist
+					// ----------------------------------
+					const projectId = getProjectId.call(this, i);
+
+					if (operation === 'create') {
+						const name = this.getNodeParameter('name', i) as string;
+						const todosetId =
+							(this.getNodeParameter('todosetId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'todoset', accountId));
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						const body: IDataObject = {
+							name,
+							...additionalFields,
+						};
+
+						if (body.description) {
+							body.description = formatRichText(body.description as string, contentFormat);
+						}
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
+							body,
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'get') {
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'GET',
+							`/buckets/${bucketId}/todolists/${todolistId}.json`,
+							{},
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'getAll') {
+						const todosetId =
+							(this.getNodeParameter('todosetId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'todoset', accountId));
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+
+						if (returnAll) {
+							responseData = await basecampApiRequestAllItems.call(
+								this,
+								'GET',
+								`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
+								{},
+								{},
+								accountId,
+							);
+						} else {
+							const limit = this.getNodeParameter('limit', i) as number;
+							responseData = await basecampApiRequest.call(
+								this,
+								'GET',
+								`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
+								{},
+								{},
+								accountId,
+							);
+							responseData = responseData.slice(0, limit);
+						}
+					}
+					if (operation === 'update') {
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
+						const name = this.getNodeParameter('name', i) as string;
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						const body: IDataObject = {
+							name,
+							...updateFields,
+						};
+
+						if (body.description) {
+							body.description = formatRichText(body.description as string, contentFormat);
+						}
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/projects/${projectId}.json`,
-							updateFields,
+							`/buckets/${bucketId}/todolists/${todolistId}.json`,
+							body,
 							{},
 							accountId,
 						);
 					}
-				}
-
-				if (resource === 'todolist') {
-					// ----------------------------------
-					//         todolist
-					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-
-					if (operation === 'create') {
-						const name = this.getNodeParameter('name', i) as string;
-						const todosetId = this.getNodeParameter('todosetId', i) as string;
-						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
 
-						const body: IDataObject = {
-							name,
-							...additionalFields,
-						};
+					if (operation === 'trash') {
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
 
-						responseData = await basecampApiRequest.call(
+						await basecampApiRequest.call(
 							this,
-							'POST',
-							`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
-							body,
+							'PUT',
+							`/buckets/${bucketId}/recordings/${todolistId}/status/trashed.json`,
+							{},
 							{},
 							accountId,
 						);
+						responseData = { success: true, status: 'trashed' };
 					}
 
-					if (operation === 'get') {
-						const todolistId = this.getNodeParameter('todolistId', i) as string;
+					if (operation === 'createGroup') {
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
+						const name = this.getNodeParameter('groupName', i) as string;
+						const groupFields = this.getNodeParameter('groupFields', i) as IDataObject;
 
 						responseData = await basecampApiRequest.call(
 							this,
-							'GET',
-							`/buckets/${projectId}/todolists/${todolistId}.json`,
-							{},
+							'POST',
+							`/buckets/${bucketId}/todolists/${todolistId}/groups.json`,
+							{ name, ...groupFields },
 							{},
 							accountId,
 						);
 					}
 
-					if (operation === 'getAll') {
-						const todosetId = this.getNodeParameter('todosetId', i) as string;
+					if (operation === 'getGroups') {
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
 							responseData = await basecampApiRequestAllItems.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
+								`/buckets/${bucketId}/todolists/${todolistId}/groups.json`,
 								{},
 								{},
 								accountId,
@@ -3082,7 +4988,7 @@ export class Basecamp implements INodeType {
 							responseData = await basecampApiRequest.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
+								`/buckets/${bucketId}/todolists/${todolistId}/groups.json`,
 								{},
 								{},
 								accountId,
@@ -3090,24 +4996,58 @@ export class Basecamp implements INodeType {
 							responseData = responseData.slice(0, limit);
 						}
 					}
+
+					if (operation === 'repositionGroup') {
+						// Groups are to-do lists nested in a list, so their links point at todolists
+						const { projectId: bucketId, recordingId: groupId } = getRecordingLocator.call(
+							this,
+							'groupId',
+							i,
+							projectId,
+							'Todolist',
+						);
+						const position = this.getNodeParameter('position', i) as number;
+
+						await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/todolists/groups/${groupId}/position.json`,
+							{ position },
+							{},
+							accountId,
+						);
+						responseData = { success: true, position };
+					}
 				}
 
 				if (resource === 'todo') {
 					// ----------------------------------
 					//         todo
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					// Search runs across projects and has no project to pick
+					const projectId = operation === 'search' ? '' : getProjectId.call(this, i);
 
 					if (operation === 'create') {
-						const todolistId = this.getNodeParameter('todolistId', i) as string;
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
 						const content = this.getNodeParameter('content', i) as string;
 						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
 							content,
 							...additionalFields,
 						};
 
+						if (body.description) {
+							body.description = formatRichText(body.description as string, contentFormat);
+						}
+
 						// Handle date formatting
 						if (body.due_on) {
 							body.due_on = new Date(body.due_on as string).toISOString().split('T')[0];
@@ -3116,34 +5056,9 @@ export class Basecamp implements INodeType {
 							body.starts_on = new Date(body.starts_on as string).toISOString().split('T')[0];
 						}
 
-						// Handle assignee_ids - ensure it's an array of numbers
-						if (body.assignee_ids !== undefined && body.assignee_ids !== '') {
-							let assignees = body.assignee_ids;
-							// If it's a string (from expression or input), try to parse it
-							if (typeof assignees === 'string') {
-								const trimmed = assignees.trim();
-								if (trimmed === '') {
-									delete body.assignee_ids;
-								} else {
-									try {
-										assignees = JSON.parse(trimmed);
-									} catch {
-										// If not JSON, try comma-separated
-										assignees = trimmed.split(',').map((s: string) => s.trim()).filter(Boolean);
-									}
-								}
-							}
-							// Convert to array of numbers
-							if (Array.isArray(assignees)) {
-								const ids = assignees
-									.map((id: any) => typeof id === 'string' ? parseInt(id, 10) : Number(id))
-									.filter((id: number) => !isNaN(id));
-								if (ids.length > 0) {
-									body.assignee_ids = ids;
-								} else {
-									delete body.assignee_ids;
-								}
-							}
+						const assigneeIds = parseIds(body.assignee_ids);
+						if (assigneeIds) {
+							body.assignee_ids = assigneeIds;
 						} else {
 							delete body.assignee_ids;
 						}
@@ -3151,7 +5066,7 @@ export class Basecamp implements INodeType {
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
-							`/buckets/${projectId}/todolists/${todolistId}/todos.json`,
+							`/buckets/${bucketId}/todolists/${todolistId}/todos.json`,
 							body,
 							{},
 							accountId,
@@ -3159,12 +5074,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const todoId = this.getNodeParameter('todoId', i) as string;
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/todos/${todoId}.json`,
+							`/buckets/${bucketId}/todos/${todoId}.json`,
 							{},
 							{},
 							accountId,
@@ -3172,7 +5093,13 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
-						const todolistId = this.getNodeParameter('todolistId', i) as string;
+						const { projectId: bucketId, recordingId: todolistId } = getRecordingLocator.call(
+							this,
+							'todolistId',
+							i,
+							projectId,
+							'Todolist',
+						);
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 						const filters = this.getNodeParameter('filters', i) as IDataObject;
 
@@ -3188,7 +5115,7 @@ export class Basecamp implements INodeType {
 							responseData = await basecampApiRequestAllItems.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/todolists/${todolistId}/todos.json`,
+								`/buckets/${bucketId}/todolists/${todolistId}/todos.json`,
 								{},
 								query,
 								accountId,
@@ -3198,7 +5125,7 @@ export class Basecamp implements INodeType {
 							responseData = await basecampApiRequest.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/todolists/${todolistId}/todos.json`,
+								`/buckets/${bucketId}/todolists/${todolistId}/todos.json`,
 								{},
 								query,
 								accountId,
@@ -3208,8 +5135,19 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const todoId = this.getNodeParameter('todoId', i) as string;
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						if (updateFields.description) {
+							updateFields.description = formatRichText(updateFields.description as string, contentFormat);
+						}
 
 						// Handle date formatting
 						if (updateFields.due_on) {
@@ -3219,42 +5157,19 @@ export class Basecamp implements INodeType {
 							updateFields.starts_on = new Date(updateFields.starts_on as string).toISOString().split('T')[0];
 						}
 
-						// Handle assignee_ids - ensure it's an array of numbers
-						if (updateFields.assignee_ids !== undefined && updateFields.assignee_ids !== '') {
-							let assignees = updateFields.assignee_ids;
-							// If it's a string (from expression or input), try to parse it
-							if (typeof assignees === 'string') {
-								const trimmed = assignees.trim();
-								if (trimmed === '') {
-									delete updateFields.assignee_ids;
-								} else {
-									try {
-										assignees = JSON.parse(trimmed);
-									} catch {
-										// If not JSON, try comma-separated
-										assignees = trimmed.split(',').map((s: string) => s.trim()).filter(Boolean);
-									}
-								}
-							}
-							// Convert to array of numbers
-							if (Array.isArray(assignees)) {
-								const ids = assignees
-									.map((id: any) => typeof id === 'string' ? parseInt(id, 10) : Number(id))
-									.filter((id: number) => !isNaN(id));
-								if (ids.length > 0) {
-									updateFields.assignee_ids = ids;
-								} else {
-									delete updateFields.assignee_ids;
-								}
+						if (updateFields.assignee_ids !== undefined) {
+							const assigneeIds = parseIds(updateFields.assignee_ids);
+							if (assigneeIds) {
+								updateFields.assignee_ids = assigneeIds;
+							} else {
+								delete updateFields.assignee_ids;
 							}
-						} else if (updateFields.assignee_ids === '') {
-							delete updateFields.assignee_ids;
 						}
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/buckets/${projectId}/todos/${todoId}.json`,
+							`/buckets/${bucketId}/todos/${todoId}.json`,
 							updateFields,
 							{},
 							accountId,
@@ -3262,12 +5177,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'delete') {
-						const todoId = this.getNodeParameter('todoId', i) as string;
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'DELETE',
-							`/buckets/${projectId}/todos/${todoId}.json`,
+							`/buckets/${bucketId}/todos/${todoId}.json`,
 							{},
 							{},
 							accountId,
@@ -3275,13 +5196,114 @@ export class Basecamp implements INodeType {
 						responseData = { success: true };
 					}
 
+					if (operation === 'search') {
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+						const filters = this.getNodeParameter('filters', i) as IDataObject;
+
+						// Dates are compared by their leading YYYY-MM-DD, so they must start with one
+						const dateFilters = { completedSince: 'Completed Since', dueAfter: 'Due After', dueBefore: 'Due Before' };
+						for (const [key, displayName] of Object.entries(dateFilters)) {
+							const value = filters[key] ? String(filters[key]) : '';
+							if (value && (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(Date.parse(value)))) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`"${displayName}" is not a valid date: ${value}`,
+									{ itemIndex: i },
+								);
+							}
+						}
+
+						const query: IDataObject = { type: 'Todo' };
+						const bucketIds = parseIds(filters.projects);
+						if (bucketIds) {
+							query.bucket = bucketIds.join(',');
+						}
+
+						const timezone = this.getTimezone();
+						const today = getToday(timezone);
+						const matching = (todos: IDataObject[]) =>
+							todos.filter((todo) => matchesTodoSearch(todo, filters, today, timezone));
+
+						// The recordings API cannot filter by assignee or due date, so pages
+						// are filtered here and read only until the limit is reached
+						const limit = returnAll ? 0 : (this.getNodeParameter('limit', i) as number);
+						let matched = 0;
+						const stopAfterPage = (page: IDataObject[]) => {
+							matched += matching(page).length;
+							return !returnAll && matched >= limit;
+						};
+
+						responseData = await basecampApiRequestAllItems.call(
+							this,
+							'GET',
+							'/projects/recordings.json',
+							{},
+							query,
+							accountId,
+							stopAfterPage,
+						);
+						responseData = matching(responseData);
+						if (!returnAll) {
+							responseData = responseData.slice(0, limit);
+						}
+					}
+
+					if (operation === 'reposition' || operation === 'move') {
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
+						const position = this.getNodeParameter('position', i) as number;
+
+						const body: IDataObject = { position };
+
+						if (operation === 'move') {
+							// The target list is picked from the selected project
+							if (bucketId !== projectId) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`To-do ${todoId} belongs to project ${bucketId} and can only be moved within that project`,
+									{ itemIndex: i },
+								);
+							}
+
+							// A group is a to-do list itself, so it takes the place of its list
+							const parentId =
+								(this.getNodeParameter('targetGroupId', i) as string) ||
+								(this.getNodeParameter('targetTodolistId', i) as string);
+							body.parent_id = Number(parentId);
+						}
+
+						await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/todos/${todoId}/position.json`,
+							body,
+							{},
+							accountId,
+						);
+						responseData =
+							operation === 'move'
+								? { success: true, parentId: String(body.parent_id), position }
+								: { success: true, position };
+					}
+
 					if (operation === 'complete') {
-						const todoId = this.getNodeParameter('todoId', i) as string;
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
-							`/buckets/${projectId}/todos/${todoId}/completion.json`,
+							`/buckets/${bucketId}/todos/${todoId}/completion.json`,
 							{},
 							{},
 							accountId,
@@ -3290,12 +5312,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'uncomplete') {
-						const todoId = this.getNodeParameter('todoId', i) as string;
+						const { projectId: bucketId, recordingId: todoId } = getRecordingLocator.call(
+							this,
+							'todoId',
+							i,
+							projectId,
+							'Todo',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'DELETE',
-							`/buckets/${projectId}/todos/${todoId}/completion.json`,
+							`/buckets/${bucketId}/todos/${todoId}/completion.json`,
 							{},
 							{},
 							accountId,
@@ -3308,18 +5336,45 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         message
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
-						const messageBoardId = this.getNodeParameter('messageBoardId', i) as string;
+						const messageBoardId =
+							(this.getNodeParameter('messageBoardId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'message_board', accountId));
 						const subject = this.getNodeParameter('subject', i) as string;
 						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
 							subject,
 							...additionalFields,
 						};
 
+						if (body.content) {
+							body.content = formatRichText(body.content as string, contentFormat);
+						}
+
+						body.content = await addMentions.call(
+							this,
+							(body.content as string) || '',
+							parseIds(body.mentionPersonIds) ?? [],
+							body.resolveMentions as boolean,
+							projectId,
+							accountId,
+						);
+
+						if (body.attachmentSgids) {
+							body.content = appendAttachments(body.content as string, body.attachmentSgids as string);
+						}
+						delete body.attachmentSgids;
+						delete body.mentionPersonIds;
+						delete body.resolveMentions;
+
+						if (!body.content) {
+							delete body.content;
+						}
+
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
@@ -3331,12 +5386,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const messageId = this.getNodeParameter('messageId', i) as string;
+						const { projectId: bucketId, recordingId: messageId } = getRecordingLocator.call(
+							this,
+							'messageId',
+							i,
+							projectId,
+							'Message',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/messages/${messageId}.json`,
+							`/buckets/${bucketId}/messages/${messageId}.json`,
 							{},
 							{},
 							accountId,
@@ -3344,7 +5405,9 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
-						const messageBoardId = this.getNodeParameter('messageBoardId', i) as string;
+						const messageBoardId =
+							(this.getNodeParameter('messageBoardId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'message_board', accountId));
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -3375,20 +5438,41 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         comment
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-					const recordingId = this.getNodeParameter('recordingId', i) as string;
+					const projectId = getProjectId.call(this, i);
+					const { projectId: bucketId, recordingId } = getRecordingLocator.call(
+						this,
+						'recordingId',
+						i,
+						projectId,
+					);
 
 					if (operation === 'create') {
 						const content = this.getNodeParameter('content', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
-							content,
+							content: await addMentions.call(
+								this,
+								formatRichText(content, contentFormat),
+								parseIds(additionalFields.mentionPersonIds) ?? [],
+								additionalFields.resolveMentions as boolean,
+								bucketId,
+								accountId,
+							),
 						};
 
+						if (additionalFields.attachmentSgids) {
+							body.content = appendAttachments(
+								body.content as string,
+								additionalFields.attachmentSgids as string,
+							);
+						}
+
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
-							`/buckets/${projectId}/recordings/${recordingId}/comments.json`,
+							`/buckets/${bucketId}/recordings/${recordingId}/comments.json`,
 							body,
 							{},
 							accountId,
@@ -3402,7 +5486,7 @@ export class Basecamp implements INodeType {
 							responseData = await basecampApiRequestAllItems.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/recordings/${recordingId}/comments.json`,
+								`/buckets/${bucketId}/recordings/${recordingId}/comments.json`,
 								{},
 								{},
 								accountId,
@@ -3412,7 +5496,7 @@ export class Basecamp implements INodeType {
 							responseData = await basecampApiRequest.call(
 								this,
 								'GET',
-								`/buckets/${projectId}/recordings/${recordingId}/comments.json`,
+								`/buckets/${bucketId}/recordings/${recordingId}/comments.json`,
 								{},
 								{},
 								accountId,
@@ -3426,10 +5510,12 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         campfire
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'get') {
-						const campfireId = this.getNodeParameter('campfireId', i) as string;
+						const campfireId =
+							(this.getNodeParameter('campfireId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'chat', accountId));
 
 						responseData = await basecampApiRequest.call(
 							this,
@@ -3446,14 +5532,26 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         campfireLine
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-					const campfireId = this.getNodeParameter('campfireId', i) as string;
+					const projectId = getProjectId.call(this, i);
+					const getCampfireId = async (bucketId: string) =>
+						(this.getNodeParameter('campfireId', i) as string) ||
+						(await getDockToolId.call(this, bucketId, 'chat', accountId));
 
 					if (operation === 'create') {
+						const campfireId = await getCampfireId(projectId);
 						const content = this.getNodeParameter('content', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
-							content,
+							content: await addMentions.call(
+								this,
+								formatRichText(content, contentFormat),
+								parseIds(additionalFields.mentionPersonIds) ?? [],
+								additionalFields.resolveMentions as boolean,
+								projectId,
+								accountId,
+							),
 						};
 
 						responseData = await basecampApiRequest.call(
@@ -3467,12 +5565,24 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const lineId = this.getNodeParameter('lineId', i) as string;
+						// A pasted link also names the campfire of the line
+						const {
+							projectId: bucketId,
+							recordingId: lineId,
+							parentId,
+						} = getRecordingLocator.call(
+							this,
+							'lineId',
+							i,
+							projectId,
+							'Chat::Line',
+						);
+						const chatId = parentId ?? (await getCampfireId(bucketId));
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/chats/${campfireId}/lines/${lineId}.json`,
+							`/buckets/${bucketId}/chats/${chatId}/lines/${lineId}.json`,
 							{},
 							{},
 							accountId,
@@ -3480,6 +5590,7 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
+						const campfireId = await getCampfireId(projectId);
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -3506,12 +5617,24 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'delete') {
-						const lineId = this.getNodeParameter('lineId', i) as string;
+						// A pasted link also names the campfire of the line
+						const {
+							projectId: bucketId,
+							recordingId: lineId,
+							parentId,
+						} = getRecordingLocator.call(
+							this,
+							'lineId',
+							i,
+							projectId,
+							'Chat::Line',
+						);
+						const chatId = parentId ?? (await getCampfireId(bucketId));
 
 						await basecampApiRequest.call(
 							this,
 							'DELETE',
-							`/buckets/${projectId}/chats/${campfireId}/lines/${lineId}.json`,
+							`/buckets/${bucketId}/chats/${chatId}/lines/${lineId}.json`,
 							{},
 							{},
 							accountId,
@@ -3524,10 +5647,12 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         cardTable
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'get') {
-						const cardTableId = this.getNodeParameter('cardTableId', i) as string;
+						const cardTableId =
+							(this.getNodeParameter('cardTableId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'kanban_board', accountId));
 
 						responseData = await basecampApiRequest.call(
 							this,
@@ -3540,23 +5665,147 @@ export class Basecamp implements INodeType {
 					}
 				}
 
+				if (resource === 'cardTableColumn') {
+					// ----------------------------------
+					//         cardTableColumn
+					// ----------------------------------
+					const projectId = getProjectId.call(this, i);
+
+					if (operation === 'create') {
+						const cardTableId =
+							(this.getNodeParameter('cardTableId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'kanban_board', accountId));
+						const title = this.getNodeParameter('title', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${projectId}/card_tables/${cardTableId}/columns.json`,
+							{ title, ...additionalFields },
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'get') {
+						const columnId = this.getNodeParameter('columnId', i) as string;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'GET',
+							`/buckets/${projectId}/card_tables/columns/${columnId}.json`,
+							{},
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'update') {
+						const columnId = this.getNodeParameter('columnId', i) as string;
+						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${projectId}/card_tables/columns/${columnId}.json`,
+							updateFields,
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'changeColor') {
+						const columnId = this.getNodeParameter('columnId', i) as string;
+						const color = this.getNodeParameter('color', i) as string;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${projectId}/card_tables/columns/${columnId}/color.json`,
+							{ color },
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'move') {
+						const cardTableId =
+							(this.getNodeParameter('cardTableId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'kanban_board', accountId));
+						const columnId = this.getNodeParameter('columnId', i) as string;
+						const position = this.getNodeParameter('position', i) as number;
+
+						await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${projectId}/card_tables/${cardTableId}/moves.json`,
+							{ source_id: Number(columnId), target_id: Number(cardTableId), position },
+							{},
+							accountId,
+						);
+						responseData = { success: true, position };
+					}
+
+					if (operation === 'putOnHold' || operation === 'removeOnHold') {
+						const columnId = this.getNodeParameter('columnId', i) as string;
+
+						responseData = await basecampApiRequest.call(
+							this,
+							operation === 'putOnHold' ? 'POST' : 'DELETE',
+							`/buckets/${projectId}/card_tables/columns/${columnId}/on_hold.json`,
+							{},
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'subscribe' || operation === 'unsubscribe') {
+						const columnId = this.getNodeParameter('columnId', i) as string;
+
+						await basecampApiRequest.call(
+							this,
+							operation === 'subscribe' ? 'POST' : 'DELETE',
+							`/buckets/${projectId}/card_tables/lists/${columnId}/subscription.json`,
+							{},
+							{},
+							accountId,
+						);
+						responseData = { success: true, subscribed: operation === 'subscribe' };
+					}
+				}
+
 				if (resource === 'card') {
 					// ----------------------------------
 					//         card
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-					const cardTableId = this.getNodeParameter('cardTableId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
 						const columnId = this.getNodeParameter('columnId', i) as string;
 						const title = this.getNodeParameter('title', i) as string;
 						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
 							title,
 							...additionalFields,
 						};
 
+						if (body.content) {
+							body.content = formatRichText(body.content as string, contentFormat);
+						}
+						if (body.due_on) {
+							body.due_on = new Date(body.due_on as string).toISOString().split('T')[0];
+						}
+
+						const assigneeIds = parseIds(body.assignee_ids);
+						if (assigneeIds) {
+							body.assignee_ids = assigneeIds;
+						} else {
+							delete body.assignee_ids;
+						}
+
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
@@ -3568,18 +5817,99 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const cardId = this.getNodeParameter('cardId', i) as string;
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/card_tables/cards/${cardId}.json`,
+							`/buckets/${bucketId}/card_tables/cards/${cardId}.json`,
 							{},
 							{},
 							accountId,
 						);
 					}
 
+					if (operation === 'complete' || operation === 'uncomplete') {
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
+
+						// A card counts as completed while it sits in the Done column
+						let columnId: string;
+						if (operation === 'uncomplete') {
+							columnId = this.getNodeParameter('columnId', i) as string;
+						} else {
+							const cardTableId =
+								(this.getNodeParameter('cardTableId', i) as string) ||
+								(await getDockToolId.call(this, bucketId, 'kanban_board', accountId));
+							columnId = await getCardTableColumnId.call(
+								this,
+								bucketId,
+								cardTableId,
+								CARD_TABLE_COLUMN_TYPES.done,
+								accountId,
+							);
+						}
+
+						await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${bucketId}/card_tables/cards/${cardId}/moves.json`,
+							{ column_id: Number(columnId) },
+							{},
+							accountId,
+						);
+						responseData = { success: true, completed: operation === 'complete', columnId };
+					}
+
+					if (operation === 'move') {
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
+						const destination = this.getNodeParameter('destination', i) as string;
+						const position = this.getNodeParameter('position', i) as number;
+
+						let columnId: string;
+						if (destination === 'column') {
+							columnId = this.getNodeParameter('columnId', i) as string;
+						} else {
+							const cardTableId =
+								(this.getNodeParameter('cardTableId', i) as string) ||
+								(await getDockToolId.call(this, bucketId, 'kanban_board', accountId));
+							columnId = await getCardTableColumnId.call(
+								this,
+								bucketId,
+								cardTableId,
+								CARD_TABLE_COLUMN_TYPES[destination],
+								accountId,
+							);
+						}
+
+						await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${bucketId}/card_tables/cards/${cardId}/moves.json`,
+							{ column_id: Number(columnId), position },
+							{},
+							accountId,
+						);
+						responseData = { success: true, columnId, position };
+					}
+
 					if (operation === 'getAll') {
 						const columnId = this.getNodeParameter('columnId', i) as string;
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
@@ -3608,36 +5938,192 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const cardId = this.getNodeParameter('cardId', i) as string;
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						if (updateFields.content) {
+							updateFields.content = formatRichText(updateFields.content as string, contentFormat);
+						}
+						if (updateFields.due_on) {
+							updateFields.due_on = new Date(updateFields.due_on as string).toISOString().split('T')[0];
+						}
+
+						// An empty selection clears the assignees of the card
+						if (updateFields.assignee_ids !== undefined) {
+							updateFields.assignee_ids = parseIds(updateFields.assignee_ids) ?? [];
+						}
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/buckets/${projectId}/card_tables/cards/${cardId}.json`,
+							`/buckets/${bucketId}/card_tables/cards/${cardId}.json`,
 							updateFields,
 							{},
 							accountId,
 						);
 					}
 				}
+				if (resource === 'cardStep') {
+					// ----------------------------------
+					//         cardStep
+					// ----------------------------------
+					const projectId = getProjectId.call(this, i);
+
+					if (operation === 'create') {
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
+						const title = this.getNodeParameter('title', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+
+						const body: IDataObject = { title };
+
+						if (additionalFields.due_on) {
+							body.due_on = new Date(additionalFields.due_on as string).toISOString().split('T')[0];
+						}
+
+						// Steps take their assignees as a comma-separated list
+						const assigneeIds = parseIds(additionalFields.assignee_ids);
+						if (assigneeIds) {
+							body.assignees = assigneeIds.join(',');
+						}
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${bucketId}/card_tables/cards/${cardId}/steps.json`,
+							body,
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'update') {
+						const { projectId: bucketId, recordingId: stepId } = getRecordingLocator.call(
+							this,
+							'stepId',
+							i,
+							projectId,
+							'Kanban::Step',
+						);
+						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+
+						const body: IDataObject = {};
+
+						if (updateFields.title) {
+							body.title = updateFields.title;
+						}
+						if (updateFields.due_on) {
+							body.due_on = new Date(updateFields.due_on as string).toISOString().split('T')[0];
+						}
+						if (updateFields.assignee_ids !== undefined) {
+							body.assignees = (parseIds(updateFields.assignee_ids) ?? []).join(',');
+						}
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/card_tables/steps/${stepId}.json`,
+							body,
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'complete' || operation === 'uncomplete') {
+						const { projectId: bucketId, recordingId: stepId } = getRecordingLocator.call(
+							this,
+							'stepId',
+							i,
+							projectId,
+							'Kanban::Step',
+						);
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/card_tables/steps/${stepId}/completions.json`,
+							{ completion: operation === 'complete' ? 'on' : 'off' },
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'reposition') {
+						const { projectId: bucketId, recordingId: cardId } = getRecordingLocator.call(
+							this,
+							'cardId',
+							i,
+							projectId,
+							'Kanban::Card',
+						);
+						const { recordingId: stepId } = getRecordingLocator.call(
+							this,
+							'stepId',
+							i,
+							bucketId,
+							'Kanban::Step',
+						);
+						const position = this.getNodeParameter('position', i) as number;
+
+						// Step positions are zero-based on the Basecamp side
+						await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${bucketId}/card_tables/cards/${cardId}/positions.json`,
+							{ source_id: Number(stepId), position: position - 1 },
+							{},
+							accountId,
+						);
+						responseData = { success: true, position };
+					}
+				}
 
 				if (resource === 'document') {
 					// ----------------------------------
 					//         document
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-					const vaultId = this.getNodeParameter('vaultId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
+						const vaultId =
+							(this.getNodeParameter('vaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
 						const title = this.getNodeParameter('title', i) as string;
 						const content = this.getNodeParameter('content', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
 							title,
-							content,
+							content: await addMentions.call(
+								this,
+								formatRichText(content, contentFormat),
+								parseIds(additionalFields.mentionPersonIds) ?? [],
+								additionalFields.resolveMentions as boolean,
+								projectId,
+								accountId,
+							),
 						};
 
+						if (additionalFields.attachmentSgids) {
+							body.content = appendAttachments(
+								body.content as string,
+								additionalFields.attachmentSgids as string,
+							);
+						}
+
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
@@ -3649,12 +6135,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const documentId = this.getNodeParameter('documentId', i) as string;
+						const { projectId: bucketId, recordingId: documentId } = getRecordingLocator.call(
+							this,
+							'documentId',
+							i,
+							projectId,
+							'Document',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/documents/${documentId}.json`,
+							`/buckets/${bucketId}/documents/${documentId}.json`,
 							{},
 							{},
 							accountId,
@@ -3662,6 +6154,9 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
+						const vaultId =
+							(this.getNodeParameter('vaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -3688,13 +6183,32 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const documentId = this.getNodeParameter('documentId', i) as string;
+						const { projectId: bucketId, recordingId: documentId } = getRecordingLocator.call(
+							this,
+							'documentId',
+							i,
+							projectId,
+							'Document',
+						);
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						if (updateFields.content) {
+							updateFields.content = formatRichText(updateFields.content as string, contentFormat);
+						}
+
+						if (updateFields.attachmentSgids) {
+							updateFields.content = appendAttachments(
+								updateFields.content as string,
+								updateFields.attachmentSgids as string,
+							);
+						}
+						delete updateFields.attachmentSgids;
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/buckets/${projectId}/documents/${documentId}.json`,
+							`/buckets/${bucketId}/documents/${documentId}.json`,
 							updateFields,
 							{},
 							accountId,
@@ -3706,7 +6220,7 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         event (activity log)
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'getAll') {
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
@@ -3741,7 +6255,7 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 
 					if (operation === 'get') {
-						const personId = this.getNodeParameter('personId', i) as string;
+						const personId = this.getNodeParameter('personId', i, '', { extractValue: true }) as string;
 
 						responseData = await basecampApiRequest.call(
 							this,
@@ -3795,16 +6309,22 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         question (check-in)
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 					const questionnaireId = this.getNodeParameter('questionnaireId', i) as string;
 
 					if (operation === 'get') {
-						const questionId = this.getNodeParameter('questionId', i) as string;
+						const { projectId: bucketId, recordingId: questionId } = getRecordingLocator.call(
+							this,
+							'questionId',
+							i,
+							projectId,
+							'Question',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/questions/${questionId}.json`,
+							`/buckets/${bucketId}/questions/${questionId}.json`,
 							{},
 							{},
 							accountId,
@@ -3842,7 +6362,7 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         questionAnswer
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 					const questionId = this.getNodeParameter('questionId', i) as string;
 
 					if (operation === 'getAll') {
@@ -3876,14 +6396,17 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         scheduleEntry
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
-					const scheduleId = this.getNodeParameter('scheduleId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
+						const scheduleId =
+							(this.getNodeParameter('scheduleId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'schedule', accountId));
 						const summary = this.getNodeParameter('summary', i) as string;
 						const startsAt = this.getNodeParameter('startsAt', i) as string;
 						const endsAt = this.getNodeParameter('endsAt', i) as string;
 						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
 
 						const body: IDataObject = {
 							summary,
@@ -3892,6 +6415,10 @@ export class Basecamp implements INodeType {
 							...additionalFields,
 						};
 
+						if (body.description) {
+							body.description = formatRichText(body.description as string, contentFormat);
+						}
+
 						responseData = await basecampApiRequest.call(
 							this,
 							'POST',
@@ -3903,12 +6430,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const scheduleEntryId = this.getNodeParameter('scheduleEntryId', i) as string;
+						const { projectId: bucketId, recordingId: scheduleEntryId } = getRecordingLocator.call(
+							this,
+							'scheduleEntryId',
+							i,
+							projectId,
+							'Schedule::Entry',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/schedule_entries/${scheduleEntryId}.json`,
+							`/buckets/${bucketId}/schedule_entries/${scheduleEntryId}.json`,
 							{},
 							{},
 							accountId,
@@ -3916,6 +6449,9 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
+						const scheduleId =
+							(this.getNodeParameter('scheduleId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'schedule', accountId));
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -3942,13 +6478,24 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const scheduleEntryId = this.getNodeParameter('scheduleEntryId', i) as string;
+						const { projectId: bucketId, recordingId: scheduleEntryId } = getRecordingLocator.call(
+							this,
+							'scheduleEntryId',
+							i,
+							projectId,
+							'Schedule::Entry',
+						);
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+						const contentFormat = this.getNodeParameter('contentFormat', i) as string;
+
+						if (updateFields.description) {
+							updateFields.description = formatRichText(updateFields.description as string, contentFormat);
+						}
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/buckets/${projectId}/schedule_entries/${scheduleEntryId}.json`,
+							`/buckets/${bucketId}/schedule_entries/${scheduleEntryId}.json`,
 							updateFields,
 							{},
 							accountId,
@@ -4021,19 +6568,73 @@ export class Basecamp implements INodeType {
 					}
 				}
 
+				if (resource === 'attachment') {
+					// ----------------------------------
+					//         attachment
+					// ----------------------------------
+
+					if (operation === 'create') {
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+						const attachableSgid = await basecampUploadAttachment.call(
+							this,
+							i,
+							binaryPropertyName,
+							accountId,
+						);
+
+						responseData = { attachable_sgid: attachableSgid };
+					}
+				}
+
 				if (resource === 'upload') {
 					// ----------------------------------
 					//         upload
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
+
+					if (operation === 'create') {
+						const vaultId =
+							(this.getNodeParameter('vaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+						const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
+
+						const attachableSgid = await basecampUploadAttachment.call(
+							this,
+							i,
+							binaryPropertyName,
+							accountId,
+						);
+
+						const body: IDataObject = {
+							attachable_sgid: attachableSgid,
+							...additionalFields,
+						};
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${projectId}/vaults/${vaultId}/uploads.json`,
+							body,
+							{},
+							accountId,
+						);
+					}
 
 					if (operation === 'get') {
-						const uploadId = this.getNodeParameter('uploadId', i) as string;
+						const { projectId: bucketId, recordingId: uploadId } = getRecordingLocator.call(
+							this,
+							'uploadId',
+							i,
+							projectId,
+							'Upload',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/uploads/${uploadId}.json`,
+							`/buckets/${bucketId}/uploads/${uploadId}.json`,
 							{},
 							{},
 							accountId,
@@ -4041,7 +6642,9 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
-						const vaultId = this.getNodeParameter('vaultId', i) as string;
+						const vaultId =
+							(this.getNodeParameter('vaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -4065,6 +6668,58 @@ export class Basecamp implements INodeType {
 							);
 							responseData = responseData.slice(0, limit);
 						}
+
+						if (this.getNodeParameter('download', i) as boolean) {
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+							const downloadedItems: INodeExecutionData[] = [];
+
+							for (const upload of responseData as IDataObject[]) {
+								downloadedItems.push(
+									await basecampDownloadUpload.call(this, upload, binaryPropertyName, accountId),
+								);
+							}
+
+							returnData.push(
+								...this.helpers.constructExecutionMetaData(downloadedItems, {
+									itemData: { item: i },
+								}),
+							);
+							continue;
+						}
+					}
+
+					if (operation === 'download') {
+						const { projectId: bucketId, recordingId: uploadId } = getRecordingLocator.call(
+							this,
+							'uploadId',
+							i,
+							projectId,
+							'Upload',
+						);
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+						const upload = await basecampApiRequest.call(
+							this,
+							'GET',
+							`/buckets/${bucketId}/uploads/${uploadId}.json`,
+							{},
+							{},
+							accountId,
+						);
+
+						const downloadedItem = await basecampDownloadUpload.call(
+							this,
+							upload,
+							binaryPropertyName,
+							accountId,
+						);
+
+						returnData.push(
+							...this.helpers.constructExecutionMetaData([downloadedItem], {
+								itemData: { item: i },
+							}),
+						);
+						continue;
 					}
 				}
 
@@ -4072,10 +6727,12 @@ export class Basecamp implements INodeType {
 					// ----------------------------------
 					//         vault (folder)
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
-						const parentVaultId = this.getNodeParameter('parentVaultId', i) as string;
+						const parentVaultId =
+							(this.getNodeParameter('parentVaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
 						const title = this.getNodeParameter('title', i) as string;
 
 						const body: IDataObject = {
@@ -4093,12 +6750,18 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'get') {
-						const vaultId = this.getNodeParameter('vaultId', i) as string;
+						const { projectId: bucketId, recordingId: vaultId } = getRecordingLocator.call(
+							this,
+							'vaultId',
+							i,
+							projectId,
+							'Vault',
+						);
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'GET',
-							`/buckets/${projectId}/vaults/${vaultId}.json`,
+							`/buckets/${bucketId}/vaults/${vaultId}.json`,
 							{},
 							{},
 							accountId,
@@ -4106,7 +6769,9 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'getAll') {
-						const parentVaultId = this.getNodeParameter('parentVaultId', i) as string;
+						const parentVaultId =
+							(this.getNodeParameter('parentVaultId', i) as string) ||
+							(await getDockToolId.call(this, projectId, 'vault', accountId));
 						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
 
 						if (returnAll) {
@@ -4133,13 +6798,19 @@ export class Basecamp implements INodeType {
 					}
 
 					if (operation === 'update') {
-						const vaultId = this.getNodeParameter('vaultId', i) as string;
+						const { projectId: bucketId, recordingId: vaultId } = getRecordingLocator.call(
+							this,
+							'vaultId',
+							i,
+							projectId,
+							'Vault',
+						);
 						const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
 
 						responseData = await basecampApiRequest.call(
 							this,
 							'PUT',
-							`/buckets/${projectId}/vaults/${vaultId}.json`,
+							`/buckets/${bucketId}/vaults/${vaultId}.json`,
 							updateFields,
 							{},
 							accountId,
@@ -4147,11 +6818,148 @@ export class Basecamp implements INodeType {
 					}
 				}
 
+				if (resource === 'recording') {
+					// ----------------------------------
+					//         recording
+					// ----------------------------------
+					if (operation === 'archive' || operation === 'trash' || operation === 'unarchive') {
+						const projectId = getProjectId.call(this, i);
+						const { projectId: bucketId, recordingId } = getRecordingLocator.call(
+							this,
+							'recordingId',
+							i,
+							projectId,
+						);
+						const status = RECORDING_STATUSES[operation];
+
+						await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/recordings/${recordingId}/status/${status}.json`,
+							{},
+							{},
+							accountId,
+						);
+						responseData = { success: true, status };
+					}
+
+					if (operation === 'getAll') {
+						const type = this.getNodeParameter('type', i) as string;
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+						const filters = this.getNodeParameter('filters', i) as IDataObject;
+
+						const query: IDataObject = { type };
+						const bucketIds = parseIds(filters.bucket);
+						if (bucketIds) {
+							query.bucket = bucketIds.join(',');
+						}
+						for (const key of ['status', 'sort', 'direction']) {
+							if (filters[key]) {
+								query[key] = filters[key];
+							}
+						}
+
+						if (returnAll) {
+							responseData = await basecampApiRequestAllItems.call(
+								this,
+								'GET',
+								'/projects/recordings.json',
+								{},
+								query,
+								accountId,
+							);
+						} else {
+							const limit = this.getNodeParameter('limit', i) as number;
+							responseData = await basecampApiRequest.call(
+								this,
+								'GET',
+								'/projects/recordings.json',
+								{},
+								query,
+								accountId,
+							);
+							responseData = responseData.slice(0, limit);
+						}
+					}
+				}
+
+				if (resource === 'subscription') {
+					// ----------------------------------
+					//         subscription
+					// ----------------------------------
+					const projectId = getProjectId.call(this, i);
+					const { projectId: bucketId, recordingId } = getRecordingLocator.call(
+						this,
+						'recordingId',
+						i,
+						projectId,
+					);
+
+					if (operation === 'get') {
+						responseData = await basecampApiRequest.call(
+							this,
+							'GET',
+							`/buckets/${bucketId}/recordings/${recordingId}/subscription.json`,
+							{},
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'subscribe') {
+						responseData = await basecampApiRequest.call(
+							this,
+							'POST',
+							`/buckets/${bucketId}/recordings/${recordingId}/subscription.json`,
+							{},
+							{},
+							accountId,
+						);
+					}
+
+					if (operation === 'unsubscribe') {
+						await basecampApiRequest.call(
+							this,
+							'DELETE',
+							`/buckets/${bucketId}/recordings/${recordingId}/subscription.json`,
+							{},
+							{},
+							accountId,
+						);
+						responseData = { success: true, subscribed: false };
+					}
+
+					if (operation === 'update') {
+						const subscriptions = parseIds(this.getNodeParameter('subscriptions', i)) ?? [];
+						const unsubscriptions = parseIds(this.getNodeParameter('unsubscriptions', i)) ?? [];
+
+						if (!subscriptions.length && !unsubscriptions.length) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Select at least one person to subscribe or unsubscribe',
+								{ itemIndex: i },
+							);
+						}
+
+						responseData = await basecampApiRequest.call(
+							this,
+							'PUT',
+							`/buckets/${bucketId}/recordings/${recordingId}/subscription.json`,
+							{
+								subscriptions,
+								unsubscriptions,
+							},
+							{},
+							accountId,
+						);
+					}
+				}
+
 				if (resource === 'webhook') {
 					// ----------------------------------
 					//         webhook
 					// ----------------------------------
-					const projectId = this.getNodeParameter('projectId', i) as string;
+					const projectId = getProjectId.call(this, i);
 
 					if (operation === 'create') {
 						const payloadUrl = this.getNodeParameter('payloadUrl', i) as string;
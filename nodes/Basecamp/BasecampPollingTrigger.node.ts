@@ -0,0 +1,289 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionTypes } from 'n8n-workflow';
+
+import {
+	basecampApiRequestAllItems,
+	basecampFetchAllPages,
+	getAccounts,
+	getProjects,
+} from './GenericFunctions';
+
+// How many recently emitted keys to remember per source, so that items
+// sharing the high-water mark timestamp are not emitted twice
+const MAX_SEEN_KEYS = 500;
+
+interface IPollState {
+	highWaterMark?: string;
+	seenKeys?: string[];
+}
+
+/**
+ * Return the items of a source that are newer than its stored high-water
+ * mark and advance the mark. On the very first poll only the mark is set.
+ */
+function collectNewItems(
+	state: IPollState,
+	items: IDataObject[],
+	timestampField: string,
+	keyOf: (item: IDataObject) => string,
+	isManual: boolean,
+): IDataObject[] {
+	const mark = state.highWaterMark ? Date.parse(state.highWaterMark) : undefined;
+	const seen = new Set(state.seenKeys || []);
+
+	let fresh: IDataObject[];
+	if (mark === undefined) {
+		fresh = isManual ? items.slice(0, 1) : [];
+	} else {
+		fresh = items.filter((item) => {
+			const timestamp = Date.parse(item[timestampField] as string);
+			return timestamp > mark || (timestamp === mark && !seen.has(keyOf(item)));
+		});
+	}
+
+	let newMark = mark;
+	for (const item of items) {
+		const timestamp = Date.parse(item[timestampField] as string);
+		if (!isNaN(timestamp) && (newMark === undefined || timestamp > newMark)) {
+			newMark = timestamp;
+		}
+	}
+
+	if (newMark !== undefined) {
+		const keys = newMark === mark ? [...seen] : [];
+		for (const item of items) {
+			if (Date.parse(item[timestampField] as string) === newMark) {
+				keys.push(keyOf(item));
+			}
+		}
+		state.highWaterMark = new Date(newMark).toISOString();
+		state.seenKeys = [...new Set(keys)].slice(-MAX_SEEN_KEYS);
+	}
+
+	return fresh;
+}
+
+export class BasecampPollingTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Basecamp Polling Trigger',
+		name: 'basecampPollingTrigger',
+		icon: 'file:basecamp.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["source"]}}',
+		description: 'Starts the workflow when recordings or events change in Basecamp, without needing webhooks',
+		defaults: {
+			name: 'Basecamp Polling Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionTypes.Main],
+		credentials: [
+			{
+				name: 'basecampOAuth2Api',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['oAuth2'],
+					},
+				},
+			},
+			{
+				name: 'basecampTokenApi',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['accessToken'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{
+						name: 'OAuth2',
+						value: 'oAuth2',
+					},
+					{
+						name: 'Access Token',
+						value: 'accessToken',
+					},
+				],
+				default: 'oAuth2',
+			},
+			{
+				displayName: 'Account Name or ID',
+				name: 'accountId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getAccounts',
+				},
+				default: '',
+				required: true,
+				description: 'The Basecamp account to use. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Source',
+				name: 'source',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Recordings',
+						value: 'recordings',
+						description: 'New or changed recordings across the account',
+					},
+					{
+						name: 'Events',
+						value: 'events',
+						description: 'New activity log events of each project',
+					},
+				],
+				default: 'recordings',
+			},
+			{
+				displayName: 'Recording Types',
+				name: 'recordingTypes',
+				type: 'multiOptions',
+				required: true,
+				options: [
+					{ name: 'Card', value: 'Kanban::Card' },
+					{ name: 'Document', value: 'Document' },
+					{ name: 'Message', value: 'Message' },
+					{ name: 'To-Do', value: 'Todo' },
+					{ name: 'Upload', value: 'Upload' },
+				],
+				default: ['Todo'],
+				displayOptions: {
+					show: {
+						source: ['recordings'],
+					},
+				},
+				description: 'The types of recordings to watch',
+			},
+			{
+				displayName: 'Project Names or IDs',
+				name: 'projectIds',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getProjects',
+					loadOptionsDependsOn: ['accountId'],
+				},
+				default: [],
+				description: 'The projects to watch. Leave empty to watch every project. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getAccounts,
+			getProjects,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const staticData = this.getWorkflowStaticData('node');
+		const accountId = this.getNodeParameter('accountId') as string;
+		const source = this.getNodeParameter('source') as string;
+		const projectIds = this.getNodeParameter('projectIds', []) as string[];
+		const isManual = this.getMode() === 'manual';
+
+		const states = (staticData.states as Record<string, IPollState>) || {};
+		staticData.states = states;
+
+		const returnData: IDataObject[] = [];
+
+		if (source === 'recordings') {
+			const recordingTypes = this.getNodeParameter('recordingTypes') as string[];
+
+			for (const recordingType of recordingTypes) {
+				const state = (states[`recordings:${recordingType}`] ??= {});
+				const mark = state.highWaterMark ? Date.parse(state.highWaterMark) : undefined;
+
+				const query: IDataObject = {
+					type: recordingType,
+					sort: 'updated_at',
+					direction: 'desc',
+				};
+				if (projectIds.length) {
+					query.bucket = projectIds.join(',');
+				}
+
+				// Newest first, so stop paging once a page reaches the high-water mark
+				const recordings = await basecampApiRequestAllItems.call(
+					this,
+					'GET',
+					'/projects/recordings.json',
+					{},
+					query,
+					accountId,
+					(page) =>
+						mark === undefined ||
+						page.some((recording) => Date.parse(recording.updated_at as string) < mark),
+				);
+
+				returnData.push(
+					...collectNewItems(
+						state,
+						recordings,
+						'updated_at',
+						(recording) => `${recording.id}:${recording.updated_at}`,
+						isManual,
+					),
+				);
+			}
+		}
+
+		if (source === 'events') {
+			let buckets = projectIds;
+			if (!buckets.length) {
+				const projects = await basecampFetchAllPages.call(this, '/projects.json', accountId);
+				buckets = projects.map((project) => project.id.toString());
+			}
+
+			for (const projectId of buckets) {
+				const state = (states[`events:${projectId}`] ??= {});
+				const mark = state.highWaterMark ? Date.parse(state.highWaterMark) : undefined;
+
+				const events = await basecampApiRequestAllItems.call(
+					this,
+					'GET',
+					`/buckets/${projectId}/recordings/${projectId}/events.json`,
+					{},
+					{},
+					accountId,
+					(page) =>
+						mark === undefined ||
+						page.some((event) => Date.parse(event.created_at as string) < mark),
+				);
+
+				returnData.push(
+					...collectNewItems(
+						state,
+						events,
+						'created_at',
+						(event) => `${event.id}`,
+						isManual,
+					).map((event) => ({ project_id: projectId, ...event })),
+				);
+			}
+		}
+
+		if (returnData.length) {
+			return [this.helpers.returnJsonArray(returnData)];
+		}
+
+		return null;
+	}
+}
@@ -0,0 +1,289 @@
+import type {
+	IDataObject,
+	IHookFunctions,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+	NodeApiError,
+} from 'n8n-workflow';
+import { NodeConnectionTypes } from 'n8n-workflow';
+
+import {
+	basecampApiRequest,
+	basecampFetchAllPages,
+	getAccounts,
+	getPeople,
+	getProjects,
+	webhookEventTypes,
+} from './GenericFunctions';
+
+export class BasecampTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Basecamp Trigger',
+		name: 'basecampTrigger',
+		icon: 'file:basecamp.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["events"].join(", ")}}',
+		description: 'Starts the workflow when Basecamp events occur',
+		defaults: {
+			name: 'Basecamp Trigger',
+		},
+		inputs: [],
+		outputs: [NodeConnectionTypes.Main],
+		credentials: [
+			{
+				name: 'basecampOAuth2Api',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['oAuth2'],
+					},
+				},
+			},
+			{
+				name: 'basecampTokenApi',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['accessToken'],
+					},
+				},
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{
+						name: 'OAuth2',
+						value: 'oAuth2',
+					},
+					{
+						name: 'Access Token',
+						value: 'accessToken',
+					},
+				],
+				default: 'oAuth2',
+			},
+			{
+				displayName: 'Account Name or ID',
+				name: 'accountId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getAccounts',
+				},
+				default: '',
+				required: true,
+				description: 'The Basecamp account to use. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Project Name or ID',
+				name: 'projectId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getProjects',
+					loadOptionsDependsOn: ['accountId'],
+				},
+				required: true,
+				default: '',
+				description: 'The project to register the webhook on. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				required: true,
+				default: ['all'],
+				options: webhookEventTypes,
+				description: 'The types of events to listen to',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				options: [
+					{
+						displayName: 'Recording Types',
+						name: 'recordingTypes',
+						type: 'multiOptions',
+						options: [
+							{ name: 'Card', value: 'Kanban::Card' },
+							{ name: 'Comment', value: 'Comment' },
+							{ name: 'Document', value: 'Document' },
+							{ name: 'Message', value: 'Message' },
+							{ name: 'Question Answer', value: 'Question::Answer' },
+							{ name: 'Schedule Entry', value: 'Schedule::Entry' },
+							{ name: 'To-Do', value: 'Todo' },
+							{ name: 'To-Do List', value: 'Todolist' },
+							{ name: 'Upload', value: 'Upload' },
+							{ name: 'Vault', value: 'Vault' },
+						],
+						default: [],
+						description: 'Only emit events for recordings of these types',
+					},
+					{
+						displayName: 'Creator Names or IDs',
+						name: 'creatorIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getPeople',
+							loadOptionsDependsOn: ['projectId'],
+						},
+						default: [],
+						description: 'Only emit events created by these people. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getAccounts,
+			getPeople,
+			getProjects,
+		},
+	};
+
+	webhookMethods = {
+		default: {
+			async checkExists(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				const webhookUrl = this.getNodeWebhookUrl('default') as string;
+				const accountId = this.getNodeParameter('accountId') as string;
+				const projectId = this.getNodeParameter('projectId') as string;
+
+				if (webhookData.webhookId !== undefined) {
+					try {
+						await basecampApiRequest.call(
+							this,
+							'GET',
+							`/buckets/${projectId}/webhooks/${webhookData.webhookId}.json`,
+							{},
+							{},
+							accountId,
+						);
+						return true;
+					} catch (error) {
+						if ((error as NodeApiError).httpCode === '404') {
+							delete webhookData.webhookId;
+							return false;
+						}
+						throw error;
+					}
+				}
+
+				// Adopt a hook left behind for the same URL instead of creating a duplicate
+				const webhooks = await basecampFetchAllPages.call(
+					this,
+					`/buckets/${projectId}/webhooks.json`,
+					accountId,
+				);
+
+				for (const webhook of webhooks) {
+					if (webhook.payload_url === webhookUrl) {
+						webhookData.webhookId = webhook.id;
+						return true;
+					}
+				}
+
+				return false;
+			},
+
+			async create(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				const webhookUrl = this.getNodeWebhookUrl('default') as string;
+				const accountId = this.getNodeParameter('accountId') as string;
+				const projectId = this.getNodeParameter('projectId') as string;
+				const events = this.getNodeParameter('events') as string[];
+
+				const body: IDataObject = {
+					payload_url: webhookUrl,
+				};
+
+				// Leaving out the types subscribes the hook to every event
+				if (!events.includes('all')) {
+					body.types = events;
+				}
+
+				const responseData = await basecampApiRequest.call(
+					this,
+					'POST',
+					`/buckets/${projectId}/webhooks.json`,
+					body,
+					{},
+					accountId,
+				);
+
+				if (responseData.id === undefined) {
+					return false;
+				}
+
+				webhookData.webhookId = responseData.id;
+				return true;
+			},
+
+			async delete(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				const accountId = this.getNodeParameter('accountId') as string;
+				const projectId = this.getNodeParameter('projectId') as string;
+
+				if (webhookData.webhookId !== undefined) {
+					try {
+						await basecampApiRequest.call(
+							this,
+							'DELETE',
+							`/buckets/${projectId}/webhooks/${webhookData.webhookId}.json`,
+							{},
+							{},
+							accountId,
+						);
+					} catch (error) {
+						if ((error as NodeApiError).httpCode !== '404') {
+							return false;
+						}
+					}
+
+					delete webhookData.webhookId;
+				}
+
+				return true;
+			},
+		},
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const bodyData = this.getBodyData();
+		const filters = this.getNodeParameter('filters', {}) as IDataObject;
+
+		const recordingTypes = (filters.recordingTypes as string[]) || [];
+		const recording = bodyData.recording as IDataObject | undefined;
+		if (recordingTypes.length && !recordingTypes.includes(recording?.type as string)) {
+			return {};
+		}
+
+		const creatorIds = ((filters.creatorIds as string[]) || []).map((id) => id.toString());
+		const creator = bodyData.creator as IDataObject | undefined;
+		if (creatorIds.length && !creatorIds.includes(String(creator?.id))) {
+			return {};
+		}
+
+		return {
+			workflowData: [this.helpers.returnJsonArray(bodyData)],
+		};
+	}
+}
@@ -1,20 +1,280 @@
 import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
 	IDataObject,
 	IExecuteFunctions,
 	IHookFunctions,
 	ILoadOptionsFunctions,
 	IHttpRequestMethods,
 	IHttpRequestOptions,
+	INodeCredentialTestResult,
+	INodeExecutionData,
+	INodeListSearchResult,
+	INodeParameterResourceLocator,
 	INodePropertyOptions,
+	IPollFunctions,
+	IRequestOptions,
 	JsonObject,
 } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { Readable } from 'stream';
+
+const DEFAULT_API_BASE_URL = 'https://3.basecampapi.com';
+const DEFAULT_LAUNCHPAD_URL = 'https://launchpad.37signals.com';
+
+/**
+ * Build a Basecamp API or Launchpad URL from the base URLs of a credential,
+ * falling back to the public Basecamp hosts
+ */
+export function buildBasecampUrl(
+	credentials: IDataObject,
+	service: 'api' | 'launchpad',
+	path: string,
+): string {
+	const baseUrl =
+		service === 'api'
+			? (credentials.apiBaseUrl as string) || DEFAULT_API_BASE_URL
+			: (credentials.launchpadUrl as string) || DEFAULT_LAUNCHPAD_URL;
+
+	return `${baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+/**
+ * Event types a Basecamp webhook can subscribe to
+ */
+export const webhookEventTypes: INodePropertyOptions[] = [
+	{ name: 'All', value: 'all' },
+	{ name: 'Card Created', value: 'Card.created' },
+	{ name: 'Card Updated', value: 'Card.updated' },
+	{ name: 'Card Archived', value: 'Card.archived' },
+	{ name: 'Comment Created', value: 'Comment.created' },
+	{ name: 'Document Created', value: 'Document.created' },
+	{ name: 'Document Updated', value: 'Document.updated' },
+	{ name: 'Message Created', value: 'Message.created' },
+	{ name: 'Todo Created', value: 'Todo.created' },
+	{ name: 'Todo Completed', value: 'Todo.completed' },
+	{ name: 'Todolist Created', value: 'Todolist.created' },
+	{ name: 'Upload Created', value: 'Upload.created' },
+];
+
+// Basecamp allows 50 requests per 10 second window for each account
+const RATE_LIMIT_CAPACITY = 50;
+const RATE_LIMIT_WINDOW_MS = 10000;
+
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+// Longer Retry-After values fail the request instead of stalling the execution
+const RETRY_AFTER_MAX_MS = 60000;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+interface IRateLimitBucket {
+	tokens: number;
+	updatedAt: number;
+	blockedUntil: number;
+}
+
+const rateLimitBuckets = new Map<string, IRateLimitBucket>();
+
+async function sleep(ms: number): Promise<void> {
+	return await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until the token bucket of the given account allows another request
+ */
+async function acquireRateLimitToken(account: string): Promise<void> {
+	let bucket = rateLimitBuckets.get(account);
+	if (!bucket) {
+		bucket = { tokens: RATE_LIMIT_CAPACITY, updatedAt: Date.now(), blockedUntil: 0 };
+		rateLimitBuckets.set(account, bucket);
+	}
+
+	for (;;) {
+		const now = Date.now();
+
+		if (bucket.blockedUntil > now) {
+			await sleep(bucket.blockedUntil - now);
+			continue;
+		}
+
+		const refill = ((now - bucket.updatedAt) * RATE_LIMIT_CAPACITY) / RATE_LIMIT_WINDOW_MS;
+		bucket.tokens = Math.min(RATE_LIMIT_CAPACITY, bucket.tokens + refill);
+		bucket.updatedAt = now;
+
+		if (bucket.tokens >= 1) {
+			bucket.tokens -= 1;
+			return;
+		}
+
+		await sleep(((1 - bucket.tokens) * RATE_LIMIT_WINDOW_MS) / RATE_LIMIT_CAPACITY);
+	}
+}
+
+/**
+ * Block the account's bucket after Basecamp told us to slow down
+ */
+function blockRateLimitBucket(account: string, delay: number) {
+	const bucket = rateLimitBuckets.get(account);
+	if (bucket) {
+		bucket.tokens = 0;
+		bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + delay);
+	}
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value as string);
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+function getErrorResponse(error: JsonObject): JsonObject | undefined {
+	const response = error.response ?? (error.cause as JsonObject | undefined)?.response;
+	return typeof response === 'object' && response !== null ? (response as JsonObject) : undefined;
+}
+
+function getErrorStatusCode(error: unknown): number | undefined {
+	if (typeof error !== 'object' || error === null) {
+		return undefined;
+	}
+
+	const { statusCode, httpCode } = error as JsonObject;
+	const parsed = parseInt(String(statusCode ?? httpCode ?? getErrorResponse(error as JsonObject)?.status), 10);
+	return isNaN(parsed) ? undefined : parsed;
+}
+
+function getErrorHeaders(error: unknown): IDataObject {
+	if (typeof error !== 'object' || error === null) {
+		return {};
+	}
+
+	return (getErrorResponse(error as JsonObject)?.headers as IDataObject | undefined) ?? {};
+}
+
+/**
+ * Read the retry settings of the node, falling back to the defaults when
+ * the node (e.g. a trigger) does not expose them
+ */
+function getRequestSettings(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): IDataObject {
+	try {
+		const settings = this.getNodeParameter('requestOptions', 0);
+		return typeof settings === 'object' && settings !== null ? (settings as IDataObject) : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Get the credential type selected by the node's authentication parameter
+ */
+export function getCredentialType(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): string {
+	try {
+		return this.getNodeParameter('authentication', 0) === 'accessToken'
+			? 'basecampTokenApi'
+			: 'basecampOAuth2Api';
+	} catch {
+		return 'basecampOAuth2Api';
+	}
+}
+
+/**
+ * Build a URL against the base URLs of the credential the node uses
+ */
+export async function getBasecampUrl(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	service: 'api' | 'launchpad',
+	path: string,
+): Promise<string> {
+	const credentials = await this.getCredentials(getCredentialType.call(this));
+	return buildBasecampUrl(credentials, service, path);
+}
+
+/**
+ * Send an authenticated request through the shared rate limiter, retrying
+ * on 429 (any method) and 502/503/504 (idempotent methods only)
+ */
+export async function basecampRequest(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	options: IHttpRequestOptions | IRequestOptions,
+	account: string,
+): Promise<any> {
+	const settings = getRequestSettings.call(this);
+	const maxRetries = (settings.maxRetries as number) ?? DEFAULT_MAX_RETRIES;
+	const throttle = settings.throttle !== false;
+	const method = ((options.method as string) || 'GET').toUpperCase();
+	const credentialType = getCredentialType.call(this);
+
+	for (let attempt = 0; ; attempt++) {
+		if (throttle) {
+			await acquireRateLimitToken(account);
+		}
+
+		try {
+			return await this.helpers.requestWithAuthentication.call(
+				this,
+				credentialType,
+				options as IRequestOptions,
+				{
+					oauth2: {
+						// Basecamp requires credentials in body for token refresh
+						includeCredentialsOnRefreshOnBody: true,
+					},
+				},
+			);
+		} catch (error) {
+			const statusCode = getErrorStatusCode(error);
+			const retryable =
+				statusCode === 429 ||
+				([502, 503, 504].includes(statusCode as number) && IDEMPOTENT_METHODS.includes(method));
+
+			if (!retryable || attempt >= maxRetries) {
+				throw new NodeApiError(this.getNode(), error as JsonObject);
+			}
+
+			const retryAfter = parseRetryAfter(getErrorHeaders(error)['retry-after']);
+			if (retryAfter !== undefined && retryAfter > RETRY_AFTER_MAX_MS) {
+				throw new NodeApiError(this.getNode(), error as JsonObject, {
+					message: `Basecamp asked to retry after ${Math.ceil(retryAfter / 1000)}s, longer than the ${RETRY_AFTER_MAX_MS / 1000}s the node waits`,
+				});
+			}
+
+			const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+			const delay = retryAfter ?? Math.round(backoff / 2 + Math.random() * (backoff / 2));
+
+			if (statusCode === 429) {
+				blockRateLimitBucket(account, delay);
+			}
+
+			await sleep(delay);
+		}
+	}
+}
 
 /**
  * Make an API request to Basecamp
  */
 export async function basecampApiRequest(
-	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: IDataObject = {},
@@ -31,7 +291,7 @@ export async function basecampApiRequest(
 		method,
 		body,
 		qs: query,
-		url: `https://3.basecampapi.com/${account}${endpoint}`,
+		url: await getBasecampUrl.call(this, 'api', `/${account}${endpoint}`),
 		json: true,
 	};
 
@@ -43,222 +303,960 @@ export async function basecampApiRequest(
 		delete options.qs;
 	}
 
+	return await basecampRequest.call(this, options, account);
+}
+
+
+/**
+ * Upload binary data of an item to Basecamp and return the attachable SGID
+ */
+export async function basecampUploadAttachment(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyName: string,
+	accountId?: string,
+): Promise<string> {
+	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
+	const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+
+	const options: IRequestOptions = {
+		headers: {
+			'Content-Type': binaryData.mimeType,
+			'Content-Length': buffer.length,
+			'User-Agent': 'n8n (https://n8n.io)',
+		},
+		method: 'POST',
+		qs: {
+			name: binaryData.fileName || binaryPropertyName,
+		},
+		url: await getBasecampUrl.call(this, 'api', `/${account}/attachments.json`),
+		body: buffer,
+		json: false,
+	};
+
+	let responseData = await basecampRequest.call(this, options, account);
+	if (typeof responseData === 'string') {
+		responseData = JSON.parse(responseData);
+	}
+
+	return responseData.attachable_sgid as string;
+}
+
+/**
+ * Download the file of an upload with the OAuth token and return it as an
+ * item holding the upload as JSON and the file as binary data. The file is
+ * streamed into the binary data store, so large uploads are never held in
+ * memory as a whole.
+ */
+export async function basecampDownloadUpload(
+	this: IExecuteFunctions,
+	upload: IDataObject,
+	binaryPropertyName: string,
+	accountId?: string,
+): Promise<INodeExecutionData> {
+	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
+
+	const options: IRequestOptions = {
+		headers: {
+			'User-Agent': 'n8n (https://n8n.io)',
+		},
+		method: 'GET',
+		url: upload.download_url as string,
+		encoding: null,
+		json: false,
+		useStream: true,
+		resolveWithFullResponse: true,
+	};
+
+	const response = await basecampRequest.call(this, options, account);
+
+	const mimeType =
+		(upload.content_type as string) || (response.headers?.['content-type'] as string) || undefined;
+	const binaryData = await this.helpers.prepareBinaryData(
+		response.body as Readable,
+		upload.filename as string,
+		mimeType,
+	);
+
+	return {
+		json: upload,
+		binary: {
+			[binaryPropertyName]: binaryData,
+		},
+	};
+}
+
+// People of each project, cached for the duration of one execution
+const projectPeopleCache = new WeakMap<object, Map<string, Promise<IDataObject[]>>>();
+
+/**
+ * Get the people of a project, fetching them only once per execution
+ */
+export async function getProjectPeople(
+	this: IExecuteFunctions,
+	projectId: string,
+	accountId?: string,
+): Promise<IDataObject[]> {
+	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
+
+	let cache = projectPeopleCache.get(this);
+	if (!cache) {
+		cache = new Map();
+		projectPeopleCache.set(this, cache);
+	}
+
+	const key = `${account}:${projectId}`;
+	let people = cache.get(key);
+	if (!people) {
+		people = basecampFetchAllPages.call(this, `/projects/${projectId}/people.json`, account);
+		cache.set(key, people);
+	}
+
 	try {
-		return await this.helpers.requestWithAuthentication.call(
-			this,
-			'basecampOAuth2Api',
-			options,
-			{
-				oauth2: {
-					// Basecamp requires credentials in body for token refresh
-					includeCredentialsOnRefreshOnBody: true,
-				},
-			},
-		);
+		return await people;
 	} catch (error) {
-		throw new NodeApiError(this.getNode(), error as JsonObject);
+		cache.delete(key);
+		throw error;
 	}
 }
 
+// Dock of each project, cached for the duration of one execution
+const projectDockCache = new WeakMap<object, Map<string, Promise<IDataObject[]>>>();
 
 /**
- * Follow Link headers to collect all pages
+ * Get the dock (the tools) of a project, fetching it only once per execution
  */
-export async function basecampFetchAllPages(
-	this: IExecuteFunctions | ILoadOptionsFunctions,
-	endpoint: string,
+export async function getProjectDock(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	projectId: string,
 	accountId?: string,
-): Promise<any[]> {
+): Promise<IDataObject[]> {
 	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
-	const out: any[] = [];
-	let nextUrl: string | undefined = `https://3.basecampapi.com/${account}${endpoint}`;
 
-	while (nextUrl) {
-		const options: any = {
-			headers: {
-				'Content-Type': 'application/json',
-				'User-Agent': 'n8n (https://n8n.io)',
-			},
-			method: 'GET',
-			url: nextUrl,
-			json: true,
-			resolveWithFullResponse: true,
-		};
+	let cache = projectDockCache.get(this);
+	if (!cache) {
+		cache = new Map();
+		projectDockCache.set(this, cache);
+	}
 
-		const res = await this.helpers.requestWithAuthentication.call(
-			this,
-			'basecampOAuth2Api',
-			options,
-			{
-				oauth2: {
-					includeCredentialsOnRefreshOnBody: true,
-				},
-			},
+	const key = `${account}:${projectId}`;
+	let dock = cache.get(key);
+	if (!dock) {
+		dock = basecampApiRequest
+			.call(this, 'GET', `/projects/${projectId}.json`, {}, {}, account)
+			.then((project: IDataObject) => (project.dock as IDataObject[]) || []);
+		cache.set(key, dock);
+	}
+
+	try {
+		return await dock;
+	} catch (error) {
+		cache.delete(key);
+		throw error;
+	}
+}
+
+/**
+ * Get a tool from the dock of a project, e.g. its `todoset` or `chat`
+ */
+export async function getDockTool(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	projectId: string,
+	toolName: string,
+	accountId?: string,
+): Promise<IDataObject | undefined> {
+	const dock = await getProjectDock.call(this, projectId, accountId);
+	return dock.find((tool) => tool.name === toolName && tool.enabled !== false);
+}
+
+/**
+ * Get the ID of a tool in the dock of a project, failing when it is missing
+ */
+export async function getDockToolId(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	projectId: string,
+	toolName: string,
+	accountId?: string,
+): Promise<string> {
+	const tool = await getDockTool.call(this, projectId, toolName, accountId);
+
+	if (!tool) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Project ${projectId} has no enabled "${toolName}" tool`,
+		);
+	}
+
+	return String(tool.id);
+}
+
+/**
+ * Get the ID of a column of a card table by its type, e.g. the
+ * `Kanban::DoneColumn` every card table has
+ */
+export async function getCardTableColumnId(
+	this: IExecuteFunctions,
+	projectId: string,
+	cardTableId: string,
+	columnType: string,
+	accountId?: string,
+): Promise<string> {
+	const cardTable = await basecampApiRequest.call(
+		this,
+		'GET',
+		`/buckets/${projectId}/card_tables/${cardTableId}.json`,
+		{},
+		{},
+		accountId,
+	);
+
+	const column = ((cardTable.lists as IDataObject[]) || []).find((list) => list.type === columnType);
+	if (!column) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Card table ${cardTableId} has no "${columnType}" column`,
 		);
+	}
+
+	return String(column.id);
+}
+
+function mentionTag(person: IDataObject): string {
+	return `<bc-attachment sgid="${person.attachable_sgid}"></bc-attachment>`;
+}
+
+/**
+ * Add mentions to rich text content: the given people are mentioned in front
+ * of the content and, when enabled, inline `@Full Name` and `@email` tokens are
+ * replaced by mentions of the matching project members
+ */
+export async function addMentions(
+	this: IExecuteFunctions,
+	content: string,
+	personIds: number[],
+	resolveInline: boolean,
+	projectId: string,
+	accountId?: string,
+): Promise<string> {
+	if (!personIds.length && !(resolveInline && content.includes('@'))) {
+		return content;
+	}
+
+	const people = await getProjectPeople.call(this, projectId, accountId);
+	let html = content;
 
-		const body = res.body;
+	if (resolveInline) {
+		const byEmail = new Map<string, IDataObject>();
+		for (const person of people) {
+			if (person.email_address) {
+				byEmail.set((person.email_address as string).toLowerCase(), person);
+			}
+		}
+
+		html = html.replace(/@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g, (token, email: string) => {
+			const person = byEmail.get(email.toLowerCase());
+			return person ? mentionTag(person) : token;
+		});
+
+		// Longest names first so "@Ann Lee" wins over "@Ann"
+		const named = people
+			.filter((person) => person.name)
+			.sort((a, b) => (b.name as string).length - (a.name as string).length);
+
+		for (const person of named) {
+			const name = (person.name as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			html = html.replace(new RegExp(`@${name}(?![\\w])`, 'gi'), mentionTag(person));
+		}
+	}
+
+	const mentioned: string[] = [];
+	for (const personId of personIds) {
+		const person = people.find((candidate) => String(candidate.id) === String(personId));
+		if (!person) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Person ${personId} is not a member of project ${projectId} and cannot be mentioned`,
+			);
+		}
+		mentioned.push(mentionTag(person));
+	}
+
+	return mentioned.length ? `${mentioned.join(' ')} ${html}` : html;
+}
+
+/**
+ * Normalize IDs of people, projects or other records given as a list, a
+ * JSON array or a comma-separated string (e.g. from an expression) into the
+ * numeric IDs Basecamp expects. Returns nothing when no valid ID is left.
+ */
+export function parseIds(value: unknown): number[] | undefined {
+	let list = value;
+
+	if (typeof list === 'string') {
+		const trimmed = list.trim();
+		if (trimmed === '') {
+			return undefined;
+		}
+		try {
+			list = JSON.parse(trimmed);
+		} catch {
+			// If not JSON, try comma-separated
+			list = trimmed.split(',').map((id) => id.trim()).filter(Boolean);
+		}
+	}
+
+	if (!Array.isArray(list)) {
+		list = list === undefined || list === null ? [] : [list];
+	}
+
+	// Only whole IDs count, a typo like `12abc` must not turn into ID 12
+	const ids = (list as unknown[])
+		.map((id) => (typeof id === 'string' && /^\d+$/.test(id.trim()) ? Number(id.trim()) : id))
+		.filter((id): id is number => Number.isSafeInteger(id) && (id as number) >= 0);
+
+	return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * Whether a to-do passes the filters of an account-wide to-do search. Due
+ * dates are compared as `YYYY-MM-DD` days as picked, without shifting them
+ * through UTC, `today` decides what is overdue. A completion time without
+ * an offset is read in `timezone`, the time zone `today` was taken in.
+ */
+export function matchesTodoSearch(
+	todo: IDataObject,
+	filters: IDataObject,
+	today: string,
+	timezone = 'UTC',
+): boolean {
+	const dueOn = todo.due_on as string | null | undefined;
+	const toDay = (date: unknown) => String(date).slice(0, 10);
+
+	const assigneeIds = parseIds(filters.assigneeIds);
+	if (assigneeIds) {
+		const assignees = ((todo.assignees as IDataObject[] | undefined) ?? []).map(({ id }) => Number(id));
+		if (!assignees.some((id) => assigneeIds.includes(id))) {
+			return false;
+		}
+	}
+
+	if (filters.dueAfter && (!dueOn || dueOn < toDay(filters.dueAfter))) {
+		return false;
+	}
+	if (filters.dueBefore && (!dueOn || dueOn > toDay(filters.dueBefore))) {
+		return false;
+	}
+	if (filters.overdue && (todo.completed || !dueOn || dueOn >= today)) {
+		return false;
+	}
 
-		if (Array.isArray(body)) {
-			out.push(...body);
+	if (filters.completedSince) {
+		// Only the completion tells when a to-do was completed, to-dos without
+		// one are left out
+		const completedAt = (todo.completion as IDataObject | undefined)?.created_at as string | undefined;
+		const since = parseDateInTimezone(String(filters.completedSince), timezone);
+		if (!todo.completed || !completedAt || Date.parse(completedAt) < since) {
+			return false;
 		}
+	}
+
+	return true;
+}
+
+/**
+ * Offset of the given time zone from UTC at a point in time, in milliseconds
+ */
+function getTimezoneOffset(timezone: string, time: number): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: timezone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+	}).formatToParts(new Date(time));
+	const part = (type: string) => Number(parts.find((candidate) => candidate.type === type)?.value);
+
+	const local = Date.UTC(
+		part('year'),
+		part('month') - 1,
+		part('day'),
+		part('hour'),
+		part('minute'),
+		part('second'),
+	);
+	return local - (time - (time % 1000));
+}
+
+/**
+ * Parse a date as the dateTime picker sends it. Values without an offset
+ * (e.g. `2026-11-01T00:00:00`) are read in the given time zone.
+ */
+export function parseDateInTimezone(value: string, timezone: string): number {
+	if (!/^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/.test(value)) {
+		return Date.parse(value);
+	}
+
+	const asUtc = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : `${value}Z`);
+	const offset = getTimezoneOffset(timezone, asUtc - getTimezoneOffset(timezone, asUtc));
+	return asUtc - offset;
+}
 
-		const link = res.headers && (res.headers.link || res.headers.Link);
-		const m = link && /<([^>]+)>;\s*rel="next"/.exec(link);
-		nextUrl = m && m[1] ? m[1] : undefined;
+/**
+ * Today's date as `YYYY-MM-DD` in the given time zone
+ */
+export function getToday(timezone: string): string {
+	// The Canadian locale formats dates the ISO way
+	return new Intl.DateTimeFormat('en-CA', {
+		timeZone: timezone,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+	}).format(new Date());
+}
+
+/**
+ * Append <bc-attachment> embeds for the given attachable SGIDs to rich text content
+ */
+export function appendAttachments(content: string | undefined, sgids: string | string[]): string {
+	const list = Array.isArray(sgids)
+		? sgids
+		: sgids
+				.split(',')
+				.map((sgid) => sgid.trim())
+				.filter(Boolean);
+
+	const tags = list.map((sgid) => `<bc-attachment sgid="${sgid}"></bc-attachment>`).join('');
+
+	return `${content || ''}${tags}`;
+}
+
+/**
+ * Extract the rel="next" URL from an RFC 5988 Link header
+ */
+export function getNextPageUrl(headers: IDataObject | undefined): string | undefined {
+	if (!headers) {
+		return undefined;
 	}
 
-	return out;
+	const link = (headers.link || headers.Link) as string | undefined;
+	if (!link) {
+		return undefined;
+	}
+
+	for (const part of link.split(',')) {
+		const match = /<([^>]+)>\s*;\s*rel="?next"?/.exec(part);
+		if (match) {
+			return match[1];
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Follow Link headers to collect all pages
+ */
+export async function basecampFetchAllPages(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	endpoint: string,
+	accountId?: string,
+	query: IDataObject = {},
+): Promise<any[]> {
+	return await basecampApiRequestAllItems.call(this, 'GET', endpoint, {}, query, accountId);
+}
+
+/**
+ * Fetch a single page of a list, starting at the endpoint or continuing at
+ * the next-page URL of the previous page
+ */
+async function basecampApiRequestPage(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body: IDataObject = {},
+	query: IDataObject = {},
+	pageUrl?: string,
+	accountId?: string,
+): Promise<{ items: IDataObject[]; nextUrl?: string; totalCount?: number }> {
+	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
+
+	const options: IRequestOptions = {
+		headers: {
+			'Content-Type': 'application/json',
+			'User-Agent': 'n8n (https://n8n.io)',
+		},
+		method,
+		url: pageUrl || (await getBasecampUrl.call(this, 'api', `/${account}${endpoint}`)),
+		json: true,
+		resolveWithFullResponse: true,
+	};
+
+	if (Object.keys(body).length !== 0) {
+		options.body = body;
+	}
+
+	// The next-page URL already carries the original query string
+	if (!pageUrl && Object.keys(query).length !== 0) {
+		options.qs = query;
+	}
+
+	const response = await basecampRequest.call(this, options, account);
+	const totalCount = parseInt(response.headers?.['x-total-count'] as string, 10);
+
+	return {
+		items: Array.isArray(response.body) ? response.body : [],
+		nextUrl: getNextPageUrl(response.headers),
+		totalCount: isNaN(totalCount) ? undefined : totalCount,
+	};
+}
+
+/**
+ * Make an API request to Basecamp and return all items, following the
+ * Link rel="next" header until the last page (or X-Total-Count) is reached.
+ * `stopAfterPage` can end the walk early, e.g. once results get too old.
+ */
+export async function basecampApiRequestAllItems(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body: IDataObject = {},
+	query: IDataObject = {},
+	accountId?: string,
+	stopAfterPage?: (page: IDataObject[]) => boolean,
+): Promise<any[]> {
+	const account = accountId || (this.getNodeParameter('accountId', 0) as string);
+	const returnData: IDataObject[] = [];
+
+	let nextUrl: string | undefined;
+	do {
+		const page = await basecampApiRequestPage.call(this, method, endpoint, body, query, nextUrl, account);
+		returnData.push(...page.items);
+
+		nextUrl = page.nextUrl;
+		if (stopAfterPage?.(page.items)) {
+			nextUrl = undefined;
+		}
+		if (page.totalCount !== undefined && returnData.length >= page.totalCount) {
+			nextUrl = undefined;
+		}
+	} while (nextUrl);
+
+	return returnData;
+}
+
+/**
+ * Get Basecamp accounts for the authenticated user
+ */
+export async function getAccounts(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const options: IHttpRequestOptions = {
+		headers: {
+			'User-Agent': 'n8n (https://n8n.io)',
+		},
+		method: 'GET',
+		url: await getBasecampUrl.call(this, 'launchpad', '/authorization.json'),
+		json: true,
+	};
+
+	const responseData = await this.helpers.requestWithAuthentication.call(
+		this,
+		getCredentialType.call(this),
+		options,
+	);
+
+	const returnData: INodePropertyOptions[] = [];
+
+	if (responseData.accounts) {
+		for (const account of responseData.accounts) {
+			// Only include Basecamp 3/4 accounts (bc3 product)
+			if (account.product === 'bc3' || account.product === 'bc4') {
+				returnData.push({
+					name: account.name,
+					value: account.id.toString(),
+				});
+			}
+		}
+	}
+
+	return returnData;
+}
+
+/**
+ * Test a Basecamp credential against Launchpad and report who it belongs to,
+ * when its token expires and which Basecamp accounts it can reach
+ */
+export async function basecampCredentialTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const data = credential.data || {};
+	const accessToken =
+		((data.oauthTokenData as IDataObject)?.access_token as string) ||
+		(data.sessionToken as string) ||
+		(data.accessToken as string);
+
+	if (!accessToken) {
+		return {
+			status: 'Error',
+			message: 'No access token found. Connect the account (OAuth2) or enter an access token.',
+		};
+	}
+
+	let authorization;
+	try {
+		authorization = await this.helpers.request({
+			headers: {
+				Authorization: `Bearer ${accessToken}`,
+				'User-Agent': 'n8n (https://n8n.io)',
+			},
+			method: 'GET',
+			uri: buildBasecampUrl(data, 'launchpad', '/authorization.json'),
+			json: true,
+		});
+	} catch (error) {
+		return {
+			status: 'Error',
+			message: `Launchpad rejected the token: ${(error as Error).message}`,
+		};
+	}
+
+	const identity = (authorization.identity as IDataObject) || {};
+	const accounts = ((authorization.accounts as IDataObject[]) || []).filter(
+		(account) => account.product === 'bc3' || account.product === 'bc4',
+	);
+	const who = `${identity.first_name ?? ''} ${identity.last_name ?? ''}`.trim();
+	const user = `${who || 'Unknown user'}${identity.email_address ? ` <${identity.email_address}>` : ''}`;
+
+	if (!accounts.length) {
+		return {
+			status: 'Error',
+			message: `Authenticated as ${user}, but no Basecamp 4 accounts are available to this user`,
+		};
+	}
+
+	const accountList = accounts.map((account) => `${account.name} (${account.id})`).join(', ');
+
+	return {
+		status: 'OK',
+		message: `Authenticated as ${user}. Token expires at ${authorization.expires_at}. Accounts: ${accountList}`,
+	};
+}
+
+/**
+ * Get projects for the selected account (with pagination)
+ */
+export async function getProjects(
+        this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+        const accountId = this.getNodeParameter('accountId', 0) as string;
+        const projects = await basecampFetchAllPages.call(this, '/projects.json', accountId);
+        const returnData: INodePropertyOptions[] = [];
+        for (const project of projects) {
+                returnData.push({ name: project.name, value: project.id.toString() });
+        }
+        return returnData;
+}
+
+/**
+ * Get todolists for the selected project (with pagination)
+ */
+export async function getTodolists(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const todoset = await getDockTool.call(this, projectId, 'todoset', accountId);
+
+	if (!todoset) {
+		return [];
+	}
+
+	const returnData: INodePropertyOptions[] = [];
+
+	const todolists = await basecampFetchAllPages.call(
+		this,
+		`/buckets/${projectId}/todosets/${todoset.id}/todolists.json`,
+		accountId,
+	);
+
+	for (const todolist of todolists) {
+		returnData.push({
+			name: todolist.title,
+			value: todolist.id.toString(),
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Get groups of the target to-do list (with pagination)
+ */
+export async function getTodolistGroups(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const todolistId = this.getNodeParameter('targetTodolistId', 0) as string;
+
+	if (!todolistId) {
+		return [];
+	}
+
+	const groups = await basecampFetchAllPages.call(
+		this,
+		`/buckets/${projectId}/todolists/${todolistId}/groups.json`,
+		accountId,
+	);
+
+	const returnData: INodePropertyOptions[] = [];
+	for (const group of groups) {
+		returnData.push({ name: group.title, value: group.id.toString() });
+	}
+	return returnData;
+}
+
+/**
+ * Get people in the selected project (with pagination)
+ */
+export async function getPeople(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const people = await basecampFetchAllPages.call(
+		this,
+		`/projects/${projectId}/people.json`,
+		accountId,
+	);
+	const returnData: INodePropertyOptions[] = [];
+	for (const person of people) {
+		returnData.push({ name: person.name, value: person.id.toString() });
+	}
+	return returnData;
+}
+
+/**
+ * Get message boards for the selected project
+ */
+export async function getMessageBoards(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const messageBoard = await getDockTool.call(this, projectId, 'message_board', accountId);
+
+	if (!messageBoard) {
+		return [];
+	}
+
+	return [
+		{
+			name: (messageBoard.title as string) || 'Message Board',
+			value: String(messageBoard.id),
+		},
+	];
+}
+
+/**
+ * Get campfires (chat rooms) for the selected project
+ */
+export async function getCampfires(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const campfire = await getDockTool.call(this, projectId, 'chat', accountId);
+
+	if (!campfire) {
+		return [];
+	}
+
+	return [
+		{
+			name: (campfire.title as string) || 'Campfire',
+			value: String(campfire.id),
+		},
+	];
+}
+
+/**
+ * Get vaults (folders) for the selected project (with pagination)
+ */
+export async function getVaults(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const vault = await getDockTool.call(this, projectId, 'vault', accountId);
+
+	if (!vault) {
+		return [];
+	}
+
+	const returnData: INodePropertyOptions[] = [
+		{
+			name: (vault.title as string) || 'Root Vault',
+			value: String(vault.id),
+		},
+	];
+
+	// Get all vaults under the root vault with pagination
+	const vaults = await basecampFetchAllPages.call(
+		this,
+		`/buckets/${projectId}/vaults/${vault.id}/vaults.json`,
+		accountId,
+	);
+
+	for (const v of vaults) {
+		returnData.push({
+			name: v.title,
+			value: v.id.toString(),
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Get schedule for the selected project
+ */
+export async function getSchedules(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const schedule = await getDockTool.call(this, projectId, 'schedule', accountId);
+
+	if (!schedule) {
+		return [];
+	}
+
+	return [
+		{
+			name: (schedule.title as string) || 'Schedule',
+			value: String(schedule.id),
+		},
+	];
 }
 
 /**
- * Make an API request to Basecamp and return all items
+ * Get questionnaires (automatic check-ins) for the selected project
  */
-export async function basecampApiRequestAllItems(
-	this: IExecuteFunctions | ILoadOptionsFunctions,
-	method: IHttpRequestMethods,
-	endpoint: string,
-	body: IDataObject = {},
-	query: IDataObject = {},
-	accountId?: string,
-): Promise<any[]> {
-	const returnData: IDataObject[] = [];
-
-	let responseData;
-	let nextPage: string | undefined;
-	query.page = 1;
-
-	do {
-		responseData = await basecampApiRequest.call(this, method, endpoint, body, query, accountId);
+export async function getQuestionnaires(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
 
-		if (Array.isArray(responseData)) {
-			returnData.push(...responseData);
-		}
+	const questionnaire = await getDockTool.call(this, projectId, 'questionnaire', accountId);
 
-		// Basecamp uses Link header for pagination
-		// For simplicity, we'll check if we got less items than expected
-		if (!Array.isArray(responseData) || responseData.length < 50) {
-			nextPage = undefined;
-		} else {
-			query.page = (query.page as number) + 1;
-			nextPage = 'next';
-		}
-	} while (nextPage);
+	if (!questionnaire) {
+		return [];
+	}
 
-	return returnData;
+	return [
+		{
+			name: (questionnaire.title as string) || 'Automatic Check-ins',
+			value: String(questionnaire.id),
+		},
+	];
 }
 
 /**
- * Get Basecamp accounts for the authenticated user
+ * Get questions for the selected questionnaire (with pagination)
  */
-export async function getAccounts(
+export async function getQuestions(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
-	const options: IHttpRequestOptions = {
-		headers: {
-			'User-Agent': 'n8n (https://n8n.io)',
-		},
-		method: 'GET',
-		url: 'https://launchpad.37signals.com/authorization.json',
-		json: true,
-	};
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const questionnaireId = this.getNodeParameter('questionnaireId', 0) as string;
 
-	const responseData = await this.helpers.requestWithAuthentication.call(
+	const returnData: INodePropertyOptions[] = [];
+
+	const questions = await basecampFetchAllPages.call(
 		this,
-		'basecampOAuth2Api',
-		options,
+		`/buckets/${projectId}/questionnaires/${questionnaireId}/questions.json`,
+		accountId,
 	);
 
-	const returnData: INodePropertyOptions[] = [];
-
-	if (responseData.accounts) {
-		for (const account of responseData.accounts) {
-			// Only include Basecamp 3/4 accounts (bc3 product)
-			if (account.product === 'bc3' || account.product === 'bc4') {
-				returnData.push({
-					name: account.name,
-					value: account.id.toString(),
-				});
-			}
-		}
+	for (const question of questions) {
+		returnData.push({
+			name: question.title,
+			value: question.id.toString(),
+		});
 	}
 
 	return returnData;
 }
 
 /**
- * Get projects for the selected account (with pagination)
+ * Get card tables (kanban boards) for the selected project
  */
-export async function getProjects(
-        this: ILoadOptionsFunctions,
+export async function getCardTables(
+	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
-        const accountId = this.getNodeParameter('accountId', 0) as string;
-        const projects = await basecampFetchAllPages.call(this, '/projects.json', accountId);
-        const returnData: INodePropertyOptions[] = [];
-        for (const project of projects) {
-                returnData.push({ name: project.name, value: project.id.toString() });
-        }
-        return returnData;
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const kanban = await getDockTool.call(this, projectId, 'kanban_board', accountId);
+
+	if (!kanban) {
+		return [];
+	}
+
+	return [
+		{
+			name: (kanban.title as string) || 'Card Table',
+			value: String(kanban.id),
+		},
+	];
 }
 
 /**
- * Get todolists for the selected project (with pagination)
+ * Get card table columns for the selected card table
  */
-export async function getTodolists(
+export async function getCardTableColumns(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
 	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const cardTableId =
+		(this.getNodeParameter('cardTableId', 0) as string) ||
+		((await getDockTool.call(this, projectId, 'kanban_board', accountId))?.id as string);
+
+	if (!cardTableId) {
+		return [];
+	}
 
-	// First get the todoset for the project
-	const project = await basecampApiRequest.call(
+	const cardTable = await basecampApiRequest.call(
 		this,
 		'GET',
-		`/projects/${projectId}.json`,
+		`/buckets/${projectId}/card_tables/${cardTableId}.json`,
 		{},
 		{},
 		accountId,
 	);
 
-	const todosetUrl = project.dock?.find((d: IDataObject) => d.name === 'todoset')?.url;
-
-	if (!todosetUrl) {
-		return [];
-	}
-
-	// Extract the bucket and todoset ID from the URL
-	const urlParts = todosetUrl.match(/buckets\/(\d+)\/todosets\/(\d+)/);
-	if (!urlParts) {
-		return [];
-	}
-
-	const todosetId = urlParts[2];
 	const returnData: INodePropertyOptions[] = [];
 
-	let page = 1;
-	let hasMore = true;
-
-	while (hasMore) {
-		const todolists = await basecampApiRequest.call(
-			this,
-			'GET',
-			`/buckets/${projectId}/todosets/${todosetId}/todolists.json`,
-			{},
-			{ page },
-			accountId,
-		);
-
-		if (!Array.isArray(todolists) || todolists.length === 0) {
-			hasMore = false;
-		} else {
-			for (const todolist of todolists) {
-				returnData.push({
-					name: todolist.title,
-					value: todolist.id.toString(),
-				});
-			}
-			// Basecamp returns up to 50 items per page
-			hasMore = todolists.length >= 50;
-			page++;
+	if (cardTable.lists) {
+		for (const column of cardTable.lists) {
+			returnData.push({
+				name: column.title,
+				value: column.id.toString(),
+			});
 		}
 	}
 
@@ -266,539 +1264,822 @@ export async function getTodolists(
 }
 
 /**
- * Get people in the selected project (with pagination)
+ * Get messages for the selected message board (with pagination)
  */
-export async function getPeople(
+export async function getMessages(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
 	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const people = await basecampFetchAllPages.call(
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const messageBoardId = this.getNodeParameter('messageBoardId', 0) as string;
+	const messages = await basecampFetchAllPages.call(
 		this,
-		`/projects/${projectId}/people.json`,
+		`/buckets/${projectId}/message_boards/${messageBoardId}/messages.json`,
 		accountId,
 	);
 	const returnData: INodePropertyOptions[] = [];
-	for (const person of people) {
-		returnData.push({ name: person.name, value: person.id.toString() });
+	for (const message of messages) {
+		returnData.push({
+			name: message.subject || message.title,
+			value: message.id.toString(),
+		});
 	}
 	return returnData;
 }
 
 /**
- * Get message boards for the selected project
+ * Get documents for the selected vault (with pagination)
  */
-export async function getMessageBoards(
+export async function getDocuments(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
 	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const vaultId = this.getNodeParameter('vaultId', 0) as string;
+
+	const returnData: INodePropertyOptions[] = [];
 
-	const project = await basecampApiRequest.call(
+	const documents = await basecampFetchAllPages.call(
 		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
+		`/buckets/${projectId}/vaults/${vaultId}/documents.json`,
 		accountId,
 	);
 
-	const messageBoard = project.dock?.find((d: IDataObject) => d.name === 'message_board');
-
-	if (!messageBoard) {
-		return [];
+	for (const doc of documents) {
+		returnData.push({
+			name: doc.title,
+			value: doc.id.toString(),
+		});
 	}
 
-	return [
-		{
-			name: messageBoard.title || 'Message Board',
-			value: messageBoard.id.toString(),
-		},
-	];
+	return returnData;
 }
 
 /**
- * Get campfires (chat rooms) for the selected project
+ * Get uploads for the selected vault (with pagination)
  */
-export async function getCampfires(
+export async function getUploads(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
 	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const vaultId = this.getNodeParameter('vaultId', 0) as string;
+
+	const returnData: INodePropertyOptions[] = [];
 
-	const project = await basecampApiRequest.call(
+	const uploads = await basecampFetchAllPages.call(
 		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
+		`/buckets/${projectId}/vaults/${vaultId}/uploads.json`,
 		accountId,
 	);
 
-	const campfire = project.dock?.find((d: IDataObject) => d.name === 'chat');
+	for (const upload of uploads) {
+		returnData.push({
+			name: upload.title || upload.filename,
+			value: upload.id.toString(),
+		});
+	}
+
+	return returnData;
+}
 
-	if (!campfire) {
+/**
+ * Get todoset for the selected project
+ */
+export async function getTodosets(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	const todoset = await getDockTool.call(this, projectId, 'todoset', accountId);
+
+	if (!todoset) {
 		return [];
 	}
 
 	return [
 		{
-			name: campfire.title || 'Campfire',
-			value: campfire.id.toString(),
+			name: (todoset.title as string) || 'To-dos',
+			value: String(todoset.id),
 		},
 	];
 }
 
 /**
- * Get vaults (folders) for the selected project (with pagination)
+ * Get webhooks for the selected project (with pagination)
  */
-export async function getVaults(
+export async function getWebhooks(
 	this: ILoadOptionsFunctions,
 ): Promise<INodePropertyOptions[]> {
 	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
 
-	const project = await basecampApiRequest.call(
+	const returnData: INodePropertyOptions[] = [];
+
+	const webhooks = await basecampFetchAllPages.call(
 		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
+		`/buckets/${projectId}/webhooks.json`,
 		accountId,
 	);
 
-	const vault = project.dock?.find((d: IDataObject) => d.name === 'vault');
+	for (const webhook of webhooks) {
+		returnData.push({
+			name: webhook.payload_url || `Webhook ${webhook.id}`,
+			value: webhook.id.toString(),
+		});
+	}
 
-	if (!vault) {
-		return [];
+	return returnData;
+}
+
+/**
+ * Get templates for the account (with pagination)
+ */
+export async function getTemplates(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const accountId = this.getNodeParameter('accountId', 0) as string;
+
+	const returnData: INodePropertyOptions[] = [];
+
+	const templates = await basecampFetchAllPages.call(
+		this,
+		'/templates.json',
+		accountId,
+	);
+
+	for (const template of templates) {
+		returnData.push({
+			name: template.name,
+			value: template.id.toString(),
+		});
 	}
 
-	const returnData: INodePropertyOptions[] = [
-		{
-			name: vault.title || 'Root Vault',
-			value: vault.id.toString(),
-		},
-	];
+	return returnData;
+}
 
-	// Get all vaults under the root vault with pagination
-	let page = 1;
-	let hasMore = true;
+function matchesFilter(filter: string | undefined, ...values: unknown[]): boolean {
+	if (!filter) {
+		return true;
+	}
+
+	const needle = filter.toLowerCase();
+	return values.some((value) => typeof value === 'string' && value.toLowerCase().includes(needle));
+}
+
+/**
+ * Search the projects of the account, one page at a time
+ */
+export async function searchProjects(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const { items, nextUrl } = await basecampApiRequestPage.call(
+		this,
+		'GET',
+		'/projects.json',
+		{},
+		{},
+		paginationToken,
+	);
+
+	return {
+		results: items
+			.filter((project) => matchesFilter(filter, project.name))
+			.map((project) => ({
+				name: project.name as string,
+				value: String(project.id),
+				url: project.app_url as string,
+			})),
+		paginationToken: nextUrl,
+	};
+}
+
+/**
+ * Search the people of the account by name or email address
+ */
+export async function searchPeople(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const { items, nextUrl } = await basecampApiRequestPage.call(
+		this,
+		'GET',
+		'/people.json',
+		{},
+		{},
+		paginationToken,
+	);
 
-	while (hasMore) {
-		const vaults = await basecampApiRequest.call(
+	return {
+		results: items
+			.filter((person) => matchesFilter(filter, person.name, person.email_address))
+			.map((person) => ({
+				name: person.email_address ? `${person.name} (${person.email_address})` : (person.name as string),
+				value: String(person.id),
+			})),
+		paginationToken: nextUrl,
+	};
+}
+
+/**
+ * Search the recordings of the selected project. Without a filter the most
+ * recently updated recordings are listed, with one Basecamp's full-text
+ * search is used.
+ */
+async function searchRecordings(
+	this: ILoadOptionsFunctions,
+	type: string | undefined,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+
+	let page;
+	if (filter) {
+		const query: IDataObject = { q: filter };
+		if (type) {
+			query.type = type;
+		}
+		if (projectId) {
+			query.bucket_id = projectId;
+		}
+		page = await basecampApiRequestPage.call(this, 'GET', '/search.json', {}, query, paginationToken);
+	} else {
+		if (!type) {
+			return { results: [] };
+		}
+		const query: IDataObject = { type, sort: 'updated_at', direction: 'desc' };
+		if (projectId) {
+			query.bucket = projectId;
+		}
+		page = await basecampApiRequestPage.call(
 			this,
 			'GET',
-			`/buckets/${projectId}/vaults/${vault.id}/vaults.json`,
+			'/projects/recordings.json',
 			{},
-			{ page },
-			accountId,
+			query,
+			paginationToken,
 		);
+	}
+
+	return {
+		results: page.items.map((recording) => ({
+			name: (recording.title || recording.subject || recording.content || `${recording.type} ${recording.id}`) as string,
+			value: String(recording.id),
+			url: recording.app_url as string,
+		})),
+		paginationToken: page.nextUrl,
+	};
+}
+
+export async function searchTodolists(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Todolist', filter, paginationToken);
+}
 
-		if (!Array.isArray(vaults) || vaults.length === 0) {
-			hasMore = false;
-		} else {
-			for (const v of vaults) {
-				returnData.push({
-					name: v.title,
-					value: v.id.toString(),
-				});
-			}
-			hasMore = vaults.length >= 50;
-			page++;
-		}
-	}
+export async function searchTodos(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Todo', filter, paginationToken);
+}
 
-	return returnData;
+export async function searchMessages(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Message', filter, paginationToken);
 }
 
-/**
- * Get schedule for the selected project
- */
-export async function getSchedules(
+export async function searchCards(
 	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Kanban::Card', filter, paginationToken);
+}
 
-	const project = await basecampApiRequest.call(
-		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
-		accountId,
-	);
+export async function searchDocuments(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Document', filter, paginationToken);
+}
 
-	const schedule = project.dock?.find((d: IDataObject) => d.name === 'schedule');
+export async function searchUploads(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Upload', filter, paginationToken);
+}
 
-	if (!schedule) {
-		return [];
-	}
+export async function searchScheduleEntries(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Schedule::Entry', filter, paginationToken);
+}
 
-	return [
-		{
-			name: schedule.title || 'Schedule',
-			value: schedule.id.toString(),
-		},
-	];
+export async function searchVaults(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, 'Vault', filter, paginationToken);
 }
 
 /**
- * Get questionnaires (automatic check-ins) for the selected project
+ * Search the questions of the selected questionnaire by title
  */
-export async function getQuestionnaires(
+export async function searchQuestions(
 	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const projectId = this.getNodeParameter('projectId', 0, { extractValue: true }) as string;
+	const questionnaireId = this.getNodeParameter('questionnaireId', 0) as string;
 
-	const project = await basecampApiRequest.call(
+	const { items, nextUrl } = await basecampApiRequestPage.call(
 		this,
 		'GET',
-		`/projects/${projectId}.json`,
+		`/buckets/${projectId}/questionnaires/${questionnaireId}/questions.json`,
 		{},
 		{},
-		accountId,
+		paginationToken,
 	);
 
-	const questionnaire = project.dock?.find((d: IDataObject) => d.name === 'questionnaire');
-
-	if (!questionnaire) {
-		return [];
-	}
-
-	return [
-		{
-			name: questionnaire.title || 'Automatic Check-ins',
-			value: questionnaire.id.toString(),
-		},
-	];
+	return {
+		results: items
+			.filter((question) => matchesFilter(filter, question.title))
+			.map((question) => ({
+				name: question.title as string,
+				value: String(question.id),
+				url: question.app_url as string,
+			})),
+		paginationToken: nextUrl,
+	};
 }
 
 /**
- * Get questions for the selected questionnaire (with pagination)
+ * Search recordings of any type, which needs a search term
  */
-export async function getQuestions(
+export async function searchAnyRecordings(
 	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const questionnaireId = this.getNodeParameter('questionnaireId', 0) as string;
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	return await searchRecordings.call(this, undefined, filter, paginationToken);
+}
 
-	const returnData: INodePropertyOptions[] = [];
+export interface IBasecampUrl {
+	accountId: string;
+	bucketId?: string;
+	// Basecamp recording type, e.g. `Todo` or `Kanban::Card`
+	type?: string;
+	recordingId?: string;
+	// Recording the link is nested in, e.g. the chat of a campfire line
+	parentId?: string;
+}
 
-	let page = 1;
-	let hasMore = true;
+// Path segments of app and API URLs and the recording types they name
+const URL_RECORDING_TYPES: { [segment: string]: string } = {
+	answers: 'Question::Answer',
+	cards: 'Kanban::Card',
+	card_tables: 'Kanban::Board',
+	chats: 'Chat::Transcript',
+	columns: 'Kanban::Column',
+	comments: 'Comment',
+	documents: 'Document',
+	lines: 'Chat::Line',
+	lists: 'Kanban::Column',
+	message_boards: 'Message::Board',
+	messages: 'Message',
+	question_answers: 'Question::Answer',
+	questionnaires: 'Questionnaire',
+	questions: 'Question',
+	schedule_entries: 'Schedule::Entry',
+	schedules: 'Schedule',
+	steps: 'Kanban::Step',
+	todolists: 'Todolist',
+	todos: 'Todo',
+	todosets: 'Todoset',
+	uploads: 'Upload',
+	vaults: 'Vault',
+};
 
-	while (hasMore) {
-		const questions = await basecampApiRequest.call(
-			this,
-			'GET',
-			`/buckets/${projectId}/questionnaires/${questionnaireId}/questions.json`,
-			{},
-			{ page },
-			accountId,
-		);
+/**
+ * Split a Basecamp link into account, bucket and recording. Both app URLs
+ * (`https://3.basecamp.com/999/buckets/1/todos/4`) and API URLs
+ * (`https://3.basecampapi.com/999/buckets/1/todos/4.json`) are understood,
+ * with or without the scheme. Returns nothing if the link does not start
+ * with an account ID.
+ */
+export function parseBasecampUrl(link: string): IBasecampUrl | undefined {
+	let url: URL;
+	try {
+		const trimmed = link.trim();
+		url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+	} catch {
+		return undefined;
+	}
 
-		if (!Array.isArray(questions) || questions.length === 0) {
-			hasMore = false;
-		} else {
-			for (const question of questions) {
-				returnData.push({
-					name: question.title,
-					value: question.id.toString(),
-				});
+	const [accountId, scope, bucketId, ...path] = url.pathname
+		.replace(/\.json$/, '')
+		.split('/')
+		.filter((segment) => segment !== '');
+	if (!/^\d+$/.test(accountId ?? '')) {
+		return undefined;
+	}
+	if ((scope !== 'buckets' && scope !== 'projects') || !/^\d+$/.test(bucketId ?? '')) {
+		return { accountId };
+	}
+	if (scope === 'projects') {
+		return { accountId, bucketId };
+	}
+
+	// The last ID in the path names the recording, e.g. the to-do of
+	// `/todos/4/completion.json` or the card of `/card_tables/cards/8`
+	for (let index = path.length - 1; index > 0; index--) {
+		if (/^\d+$/.test(path[index]) && !/^\d+$/.test(path[index - 1])) {
+			const parsed: IBasecampUrl = {
+				accountId,
+				bucketId,
+				type: URL_RECORDING_TYPES[path[index - 1]],
+				recordingId: path[index],
+			};
+			if (index > 1 && /^\d+$/.test(path[index - 2])) {
+				parsed.parentId = path[index - 2];
 			}
-			hasMore = questions.length >= 50;
-			page++;
+			return parsed;
 		}
 	}
 
-	return returnData;
+	return { accountId, bucketId };
 }
 
 /**
- * Get card tables (kanban boards) for the selected project
+ * Parse a pasted link and make sure it belongs to the account the node
+ * works on
  */
-export async function getCardTables(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-
-	const project = await basecampApiRequest.call(
-		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
-		accountId,
-	);
-
-	const kanban = project.dock?.find((d: IDataObject) => d.name === 'kanban_board');
+function parseAccountUrl(
+	this: IExecuteFunctions,
+	link: string,
+	itemIndex: number,
+): IBasecampUrl | undefined {
+	const parsed = parseBasecampUrl(link);
+	if (!parsed) {
+		return undefined;
+	}
 
-	if (!kanban) {
-		return [];
+	const accountId = String(this.getNodeParameter('accountId', itemIndex));
+	if (parsed.accountId !== accountId) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`"${link}" belongs to Basecamp account ${parsed.accountId}, not to the selected account ${accountId}`,
+			{ itemIndex },
+		);
 	}
 
-	return [
-		{
-			name: kanban.title || 'Card Table',
-			value: kanban.id.toString(),
-		},
-	];
+	return parsed;
 }
 
 /**
- * Get card table columns for the selected card table
+ * Read the project resource locator of an item
  */
-export async function getCardTableColumns(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const cardTableId = this.getNodeParameter('cardTableId', 0) as string;
-
-	const cardTable = await basecampApiRequest.call(
-		this,
-		'GET',
-		`/buckets/${projectId}/card_tables/${cardTableId}.json`,
-		{},
-		{},
-		accountId,
-	);
-
-	const returnData: INodePropertyOptions[] = [];
-
-	if (cardTable.lists) {
-		for (const column of cardTable.lists) {
-			returnData.push({
-				name: column.title,
-				value: column.id.toString(),
-			});
+export function getProjectId(this: IExecuteFunctions, itemIndex: number): string {
+	const locator = this.getNodeParameter('projectId', itemIndex) as
+		| INodeParameterResourceLocator
+		| string;
+
+	if (typeof locator === 'object' && locator.mode === 'url') {
+		const bucketId = parseAccountUrl.call(this, locator.value as string, itemIndex)?.bucketId;
+		if (!bucketId) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`"${locator.value}" is not a link to a Basecamp project`,
+				{ itemIndex },
+			);
 		}
+		return bucketId;
 	}
 
-	return returnData;
+	return this.getNodeParameter('projectId', itemIndex, '', { extractValue: true }) as string;
 }
 
 /**
- * Get messages for the selected message board (with pagination)
+ * Read a recording resource locator. A pasted Basecamp link also names the
+ * bucket (project) of the recording, which then wins over the project field.
+ * Links to another kind of recording than `type` are rejected.
  */
-export async function getMessages(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const messageBoardId = this.getNodeParameter('messageBoardId', 0) as string;
-	const messages = await basecampFetchAllPages.call(
-		this,
-		`/buckets/${projectId}/message_boards/${messageBoardId}/messages.json`,
-		accountId,
-	);
-	const returnData: INodePropertyOptions[] = [];
-	for (const message of messages) {
-		returnData.push({
-			name: message.subject || message.title,
-			value: message.id.toString(),
-		});
+export function getRecordingLocator(
+	this: IExecuteFunctions,
+	parameterName: string,
+	itemIndex: number,
+	projectId: string,
+	type?: string,
+): { projectId: string; recordingId: string; parentId?: string } {
+	const locator = this.getNodeParameter(parameterName, itemIndex) as
+		| INodeParameterResourceLocator
+		| string;
+
+	if (typeof locator === 'object' && locator.mode === 'url') {
+		const link = locator.value as string;
+		const parsed = parseAccountUrl.call(this, link, itemIndex);
+		if (!parsed?.bucketId || !parsed.recordingId) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`"${link}" is not a link to a Basecamp recording`,
+				{ itemIndex },
+			);
+		}
+		if (type && parsed.type && parsed.type !== type) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`"${link}" links to a ${parsed.type}, not to a ${type}`,
+				{ itemIndex },
+			);
+		}
+		return {
+			projectId: parsed.bucketId,
+			recordingId: parsed.recordingId,
+			parentId: parsed.parentId,
+		};
 	}
-	return returnData;
+
+	return {
+		projectId,
+		recordingId: this.getNodeParameter(parameterName, itemIndex, '', { extractValue: true }) as string,
+	};
+}
+
+// Tags Basecamp keeps in rich text content, everything else gets stripped
+const RICH_TEXT_TAGS = [
+	'a',
+	'bc-attachment',
+	'blockquote',
+	'br',
+	'div',
+	'em',
+	'h1',
+	'li',
+	'ol',
+	'pre',
+	'strike',
+	'strong',
+	'ul',
+];
+
+// Common HTML tags that have a Basecamp equivalent
+const RICH_TEXT_TAG_ALIASES: { [tag: string]: string } = {
+	b: 'strong',
+	del: 'strike',
+	h2: 'h1',
+	h3: 'h1',
+	h4: 'h1',
+	h5: 'h1',
+	h6: 'h1',
+	i: 'em',
+	p: 'div',
+	s: 'strike',
+};
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
 }
 
 /**
- * Get documents for the selected vault (with pagination)
+ * Escape an attribute value taken from HTML, leaving entities it already
+ * contains (e.g. `&amp;` in a link) as they are
  */
-export async function getDocuments(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const vaultId = this.getNodeParameter('vaultId', 0) as string;
-
-	const returnData: INodePropertyOptions[] = [];
-
-	let page = 1;
-	let hasMore = true;
+function escapeAttribute(value: string): string {
+	return value
+		.replace(/&(?!(?:#\d+|#x[\da-f]+|[a-z][\da-z]*);)/gi, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
 
-	while (hasMore) {
-		const documents = await basecampApiRequest.call(
-			this,
-			'GET',
-			`/buckets/${projectId}/vaults/${vaultId}/documents.json`,
-			{},
-			{ page },
-			accountId,
-		);
+/**
+ * Whether a link is safe to keep. Browsers ignore entities, whitespace and
+ * control characters in the scheme, so those are removed before checking.
+ */
+function isSafeUrl(url: string): boolean {
+	const scheme = url
+		.replace(/&#x([\da-f]+);?/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+		.replace(/&#(\d+);?/g, (_match, code: string) => String.fromCharCode(Number(code)))
+		.replace(/&(?:tab|newline|colon);/gi, (entity) => (entity.toLowerCase() === '&colon;' ? ':' : ''))
+		.replace(/[\u0000-\u0020\u007f]/g, '')
+		.toLowerCase();
+
+	return !/^(?:javascript|data|vbscript):/.test(scheme);
+}
 
-		if (!Array.isArray(documents) || documents.length === 0) {
-			hasMore = false;
-		} else {
-			for (const doc of documents) {
-				returnData.push({
-					name: doc.title,
-					value: doc.id.toString(),
-				});
-			}
-			hasMore = documents.length >= 50;
-			page++;
+/**
+ * Read the attributes of a tag into a map of lowercase names to raw values
+ */
+function parseAttributes(attributes: string): Map<string, string> {
+	const parsed = new Map<string, string>();
+	const pattern = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+	for (let match = pattern.exec(attributes); match; match = pattern.exec(attributes)) {
+		const name = match[1].toLowerCase();
+		if (!parsed.has(name)) {
+			parsed.set(name, match[2] ?? match[3] ?? match[4] ?? '');
 		}
 	}
 
-	return returnData;
+	return parsed;
 }
 
+// Attributes Basecamp reads from an attachment, anything else is dropped
+const BC_ATTACHMENT_ATTRIBUTES = ['sgid', 'caption', 'content-type', 'href', 'filename'];
+
 /**
- * Get uploads for the selected vault (with pagination)
+ * Strip every tag and attribute Basecamp does not support from HTML content
  */
-export async function getUploads(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
-	const vaultId = this.getNodeParameter('vaultId', 0) as string;
-
-	const returnData: INodePropertyOptions[] = [];
+export function sanitizeRichText(html: string): string {
+	return html
+		.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/<(\/?)([a-zA-Z][\w-]*)([^>]*)>/g, (_tag, closing: string, name: string, attributes: string) => {
+			const lowerName = name.toLowerCase();
+			const tagName = RICH_TEXT_TAG_ALIASES[lowerName] ?? lowerName;
+
+			if (!RICH_TEXT_TAGS.includes(tagName)) {
+				return '';
+			}
 
-	let page = 1;
-	let hasMore = true;
+			if (closing) {
+				return tagName === 'br' ? '' : `</${tagName}>`;
+			}
 
-	while (hasMore) {
-		const uploads = await basecampApiRequest.call(
-			this,
-			'GET',
-			`/buckets/${projectId}/vaults/${vaultId}/uploads.json`,
-			{},
-			{ page },
-			accountId,
-		);
+			if (tagName === 'a') {
+				const url = parseAttributes(attributes).get('href');
+				return url && isSafeUrl(url) ? `<a href="${escapeAttribute(url)}">` : '<a>';
+			}
 
-		if (!Array.isArray(uploads) || uploads.length === 0) {
-			hasMore = false;
-		} else {
-			for (const upload of uploads) {
-				returnData.push({
-					name: upload.title || upload.filename,
-					value: upload.id.toString(),
-				});
+			// Attachments and mentions carry their data in attributes, keep the known ones
+			if (tagName === 'bc-attachment') {
+				const selfClosing = /\/\s*$/.test(attributes);
+				const kept: string[] = [];
+				for (const [attribute, value] of parseAttributes(attributes.replace(/\s*\/\s*$/, ''))) {
+					if (BC_ATTACHMENT_ATTRIBUTES.includes(attribute) && (attribute !== 'href' || isSafeUrl(value))) {
+						kept.push(` ${attribute}="${escapeAttribute(value)}"`);
+					}
+				}
+				const tag = `<bc-attachment${kept.join('')}>`;
+				return selfClosing ? `${tag}</bc-attachment>` : tag;
 			}
-			hasMore = uploads.length >= 50;
-			page++;
-		}
-	}
 
-	return returnData;
+			return `<${tagName}>`;
+		});
 }
 
 /**
- * Get todoset for the selected project
+ * Convert inline Markdown (links, bold, italic, strikethrough, code) to rich text
  */
-export async function getTodosets(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+function convertInlineMarkdown(text: string): string {
+	const placeholders: string[] = [];
+	const hold = (html: string) => {
+		placeholders.push(html);
+		return `\u0000${placeholders.length - 1}\u0000`;
+	};
 
-	const project = await basecampApiRequest.call(
-		this,
-		'GET',
-		`/projects/${projectId}.json`,
-		{},
-		{},
-		accountId,
+	let html = text.replace(/`([^`]+)`/g, (_match, code: string) => hold(escapeHtml(code)));
+	// URLs may contain balanced parentheses, e.g. links to Wikipedia pages.
+	// Unsafe links keep only their label.
+	html = html.replace(
+		/\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/g,
+		(_match, label: string, url: string) =>
+			hold(isSafeUrl(url) ? `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>` : escapeHtml(label)),
 	);
 
-	const todoset = project.dock?.find((d: IDataObject) => d.name === 'todoset');
-
-	if (!todoset) {
-		return [];
-	}
+	html = escapeHtml(html)
+		.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+		.replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+		.replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+		.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<strike>$1</strike>');
 
-	return [
-		{
-			name: todoset.title || 'To-dos',
-			value: todoset.id.toString(),
-		},
-	];
+	return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => placeholders[Number(index)]);
 }
 
 /**
- * Get webhooks for the selected project (with pagination)
+ * Convert Markdown into the HTML subset supported by Basecamp rich text
  */
-export async function getWebhooks(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-	const projectId = this.getNodeParameter('projectId', 0) as string;
+export function markdownToRichText(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const blocks: string[] = [];
+	let paragraph: string[] = [];
+
+	const flushParagraph = () => {
+		if (paragraph.length) {
+			blocks.push(`<div>${paragraph.map(convertInlineMarkdown).join('<br>')}</div>`);
+			paragraph = [];
+		}
+	};
 
-	const returnData: INodePropertyOptions[] = [];
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
 
-	let page = 1;
-	let hasMore = true;
+		if (/^\s*```/.test(line)) {
+			flushParagraph();
+			const code: string[] = [];
+			while (++index < lines.length && !/^\s*```/.test(lines[index])) {
+				code.push(lines[index]);
+			}
+			blocks.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+			continue;
+		}
 
-	while (hasMore) {
-		const webhooks = await basecampApiRequest.call(
-			this,
-			'GET',
-			`/buckets/${projectId}/webhooks.json`,
-			{},
-			{ page },
-			accountId,
-		);
+		// Basecamp only knows a single heading level
+		const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+		if (heading) {
+			flushParagraph();
+			blocks.push(`<h1>${convertInlineMarkdown(heading[1])}</h1>`);
+			continue;
+		}
 
-		if (!Array.isArray(webhooks) || webhooks.length === 0) {
-			hasMore = false;
-		} else {
-			for (const webhook of webhooks) {
-				returnData.push({
-					name: webhook.payload_url || `Webhook ${webhook.id}`,
-					value: webhook.id.toString(),
-				});
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			flushParagraph();
+			continue;
+		}
+
+		if (/^\s*>/.test(line)) {
+			flushParagraph();
+			const quote: string[] = [];
+			while (index < lines.length && /^\s*>/.test(lines[index])) {
+				quote.push(lines[index].replace(/^\s*>\s?/, ''));
+				index++;
+			}
+			index--;
+			blocks.push(`<blockquote>${quote.map(convertInlineMarkdown).join('<br>')}</blockquote>`);
+			continue;
+		}
+
+		const listItem = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+		if (listItem) {
+			flushParagraph();
+			const ordered = /\d/.test(listItem[1]);
+			const items: string[] = [];
+			while (index < lines.length) {
+				const item = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(lines[index]);
+				if (!item || /\d/.test(item[1]) !== ordered) {
+					break;
+				}
+				items.push(`<li>${convertInlineMarkdown(item[2])}</li>`);
+				index++;
 			}
-			hasMore = webhooks.length >= 50;
-			page++;
+			index--;
+			const tag = ordered ? 'ol' : 'ul';
+			blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+			continue;
 		}
+
+		if (line.trim() === '') {
+			flushParagraph();
+			continue;
+		}
+
+		paragraph.push(line.trim());
 	}
 
-	return returnData;
+	flushParagraph();
+
+	return blocks.join('<br>');
 }
 
 /**
- * Get templates for the account (with pagination)
+ * Turn content of the given format (plain, markdown or html) into Basecamp
+ * rich text. Raw content is sent as given.
  */
-export async function getTemplates(
-	this: ILoadOptionsFunctions,
-): Promise<INodePropertyOptions[]> {
-	const accountId = this.getNodeParameter('accountId', 0) as string;
-
-	const returnData: INodePropertyOptions[] = [];
-
-	let page = 1;
-	let hasMore = true;
+export function formatRichText(content: string, format: string): string {
+	if (format === 'raw') {
+		return content;
+	}
 
-	while (hasMore) {
-		const templates = await basecampApiRequest.call(
-			this,
-			'GET',
-			'/templates.json',
-			{},
-			{ page },
-			accountId,
-		);
+	if (format === 'plain') {
+		return `<div>${escapeHtml(content).replace(/\r?\n/g, '<br>')}</div>`;
+	}
 
-		if (!Array.isArray(templates) || templates.length === 0) {
-			hasMore = false;
-		} else {
-			for (const template of templates) {
-				returnData.push({
-					name: template.name,
-					value: template.id.toString(),
-				});
-			}
-			hasMore = templates.length >= 50;
-			page++;
-		}
+	if (format === 'markdown') {
+		return markdownToRichText(content);
 	}
 
-	return returnData;
+	return sanitizeRichText(content);
 }
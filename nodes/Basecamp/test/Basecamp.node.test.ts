@@ -0,0 +1,1780 @@
+import type { IDataObject, INodeParameters } from 'n8n-workflow';
+import { NodeHelpers } from 'n8n-workflow';
+
+import { Basecamp } from '../Basecamp.node';
+import { BasecampMock, createExecuteContext } from './mock';
+
+import answer from './fixtures/answer.json';
+import card from './fixtures/card.json';
+import cardTable from './fixtures/cardTable.json';
+import cardStep from './fixtures/cardStep.json';
+import cardTableColumn from './fixtures/cardTableColumn.json';
+import chat from './fixtures/chat.json';
+import chatLine from './fixtures/chatLine.json';
+import comment from './fixtures/comment.json';
+import document from './fixtures/document.json';
+import event from './fixtures/event.json';
+import message from './fixtures/message.json';
+import person from './fixtures/person.json';
+import project from './fixtures/project.json';
+import projectConstruction from './fixtures/projectConstruction.json';
+import question from './fixtures/question.json';
+import scheduleEntry from './fixtures/scheduleEntry.json';
+import subscription from './fixtures/subscription.json';
+import template from './fixtures/template.json';
+import todo from './fixtures/todo.json';
+import todolist from './fixtures/todolist.json';
+import todolistGroup from './fixtures/todolistGroup.json';
+import upload from './fixtures/upload.json';
+import vault from './fixtures/vault.json';
+import webhook from './fixtures/webhook.json';
+
+interface IOperationCase {
+	resource: string;
+	operation: string;
+	parameters: IDataObject;
+	method: string;
+	path: string;
+	response: unknown;
+	// Output of the node when it does not pass the response through
+	output?: IDataObject;
+	// Body the node is expected to send
+	body?: IDataObject;
+}
+
+/**
+ * One case per resource/operation branch of the node. Get Many is covered
+ * separately for both Return All and Limit below.
+ */
+const cases: IOperationCase[] = [
+	// project
+	{
+		resource: 'project',
+		operation: 'create',
+		parameters: { name: 'Marketing', additionalFields: { description: 'Campaigns and launches' } },
+		method: 'POST',
+		path: '/999/projects.json',
+		response: project,
+		body: { name: 'Marketing', description: 'Campaigns and launches' },
+	},
+	{
+		resource: 'project',
+		operation: 'delete',
+		parameters: { projectId: '1' },
+		method: 'DELETE',
+		path: '/999/projects/1.json',
+		response: '',
+		output: { success: true },
+	},
+	{
+		resource: 'project',
+		operation: 'get',
+		parameters: { projectId: '1' },
+		method: 'GET',
+		path: '/999/projects/1.json',
+		response: project,
+	},
+	{
+		resource: 'project',
+		operation: 'update',
+		parameters: { projectId: '1', updateFields: { name: 'Marketing 2026' } },
+		method: 'PUT',
+		path: '/999/projects/1.json',
+		response: project,
+		body: { name: 'Marketing 2026' },
+	},
+
+	// todolist
+	{
+		resource: 'todolist',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			todosetId: '2',
+			name: 'Launch checklist',
+			additionalFields: { description: 'Everything for the **launch**' },
+			contentFormat: 'markdown',
+		},
+		method: 'POST',
+		path: '/999/buckets/1/todosets/2/todolists.json',
+		response: todolist,
+		body: {
+			name: 'Launch checklist',
+			description: '<div>Everything for the <strong>launch</strong></div>',
+		},
+	},
+	{
+		resource: 'todolist',
+		operation: 'get',
+		parameters: { projectId: '1', todolistId: '3' },
+		method: 'GET',
+		path: '/999/buckets/1/todolists/3.json',
+		response: todolist,
+	},
+	{
+		resource: 'todolist',
+		operation: 'update',
+		parameters: {
+			projectId: '1',
+			todolistId: '3',
+			name: 'Sprint 12',
+			updateFields: { description: 'Ships on *Friday*' },
+			contentFormat: 'markdown',
+		},
+		method: 'PUT',
+		path: '/999/buckets/1/todolists/3.json',
+		response: todolist,
+		body: { name: 'Sprint 12', description: '<div>Ships on <em>Friday</em></div>' },
+	},
+	{
+		resource: 'todolist',
+		operation: 'trash',
+		parameters: { projectId: '1', todolistId: '3' },
+		method: 'PUT',
+		path: '/999/buckets/1/recordings/3/status/trashed.json',
+		response: '',
+		output: { success: true, status: 'trashed' },
+	},
+	{
+		resource: 'todolist',
+		operation: 'createGroup',
+		parameters: { projectId: '1', todolistId: '3', groupName: 'Checkout epic', groupFields: { color: 'blue' } },
+		method: 'POST',
+		path: '/999/buckets/1/todolists/3/groups.json',
+		response: todolistGroup,
+		body: { name: 'Checkout epic', color: 'blue' },
+	},
+	{
+		resource: 'todolist',
+		operation: 'repositionGroup',
+		parameters: { projectId: '1', groupId: '5', position: 2 },
+		method: 'PUT',
+		path: '/999/buckets/1/todolists/groups/5/position.json',
+		response: '',
+		output: { success: true, position: 2 },
+		body: { position: 2 },
+	},
+
+	// todo
+	{
+		resource: 'todo',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			todolistId: '3',
+			content: 'Draft the press release',
+			additionalFields: { assignee_ids: '10, 11', due_on: '2026-10-31T00:00:00.000Z' },
+		},
+		method: 'POST',
+		path: '/999/buckets/1/todolists/3/todos.json',
+		response: todo,
+		body: { content: 'Draft the press release', assignee_ids: [10, 11], due_on: '2026-10-31' },
+	},
+	{
+		resource: 'todo',
+		operation: 'get',
+		parameters: { projectId: '1', todoId: '4' },
+		method: 'GET',
+		path: '/999/buckets/1/todos/4.json',
+		response: todo,
+	},
+	{
+		resource: 'todo',
+		operation: 'update',
+		parameters: { projectId: '1', todoId: '4', updateFields: { assignee_ids: '[10]' } },
+		method: 'PUT',
+		path: '/999/buckets/1/todos/4.json',
+		response: todo,
+		body: { assignee_ids: [10] },
+	},
+	{
+		resource: 'todo',
+		operation: 'delete',
+		parameters: { projectId: '1', todoId: '4' },
+		method: 'DELETE',
+		path: '/999/buckets/1/todos/4.json',
+		response: '',
+		output: { success: true },
+	},
+	{
+		resource: 'todo',
+		operation: 'complete',
+		parameters: { projectId: '1', todoId: '4' },
+		method: 'POST',
+		path: '/999/buckets/1/todos/4/completion.json',
+		response: '',
+		output: { success: true, completed: true },
+	},
+	{
+		resource: 'todo',
+		operation: 'uncomplete',
+		parameters: { projectId: '1', todoId: '4' },
+		method: 'DELETE',
+		path: '/999/buckets/1/todos/4/completion.json',
+		response: '',
+		output: { success: true, completed: false },
+	},
+	{
+		resource: 'todo',
+		operation: 'reposition',
+		parameters: { projectId: '1', todoId: '4', position: 3 },
+		method: 'PUT',
+		path: '/999/buckets/1/todos/4/position.json',
+		response: '',
+		output: { success: true, position: 3 },
+		body: { position: 3 },
+	},
+	{
+		resource: 'todo',
+		operation: 'move',
+		parameters: { projectId: '1', todoId: '4', targetTodolistId: '3', targetGroupId: '5', position: 1 },
+		method: 'PUT',
+		path: '/999/buckets/1/todos/4/position.json',
+		response: '',
+		output: { success: true, parentId: '5', position: 1 },
+		body: { position: 1, parent_id: 5 },
+	},
+
+	// message
+	{
+		resource: 'message',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			messageBoardId: '20',
+			subject: 'Kickoff',
+			additionalFields: { content: 'Welcome aboard!', status: 'active', attachmentSgids: 'sgid-1' },
+			contentFormat: 'plain',
+		},
+		method: 'POST',
+		path: '/999/buckets/1/message_boards/20/messages.json',
+		response: message,
+		body: {
+			subject: 'Kickoff',
+			status: 'active',
+			content: '<div>Welcome aboard!</div><bc-attachment sgid="sgid-1"></bc-attachment>',
+		},
+	},
+	{
+		resource: 'message',
+		operation: 'get',
+		parameters: { projectId: '1', messageId: '21' },
+		method: 'GET',
+		path: '/999/buckets/1/messages/21.json',
+		response: message,
+	},
+
+	// comment
+	{
+		resource: 'comment',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			recordingId: '21',
+			content: '<div>Sounds good.</div><script>alert(1)</script>',
+			additionalFields: {},
+			contentFormat: 'html',
+		},
+		method: 'POST',
+		path: '/999/buckets/1/recordings/21/comments.json',
+		response: comment,
+		body: { content: '<div>Sounds good.</div>' },
+	},
+
+	// campfire
+	{
+		resource: 'campfire',
+		operation: 'get',
+		parameters: { projectId: '1', campfireId: '5' },
+		method: 'GET',
+		path: '/999/buckets/1/chats/5.json',
+		response: chat,
+	},
+
+	// campfireLine
+	{
+		resource: 'campfireLine',
+		operation: 'create',
+		parameters: { projectId: '1', campfireId: '5', content: 'Morning all', additionalFields: {} },
+		method: 'POST',
+		path: '/999/buckets/1/chats/5/lines.json',
+		response: chatLine,
+		body: { content: 'Morning all' },
+	},
+	{
+		resource: 'campfireLine',
+		operation: 'get',
+		parameters: { projectId: '1', campfireId: '5', lineId: '23' },
+		method: 'GET',
+		path: '/999/buckets/1/chats/5/lines/23.json',
+		response: chatLine,
+	},
+	{
+		resource: 'campfireLine',
+		operation: 'delete',
+		parameters: { projectId: '1', campfireId: '5', lineId: '23' },
+		method: 'DELETE',
+		path: '/999/buckets/1/chats/5/lines/23.json',
+		response: '',
+		output: { success: true },
+	},
+
+	// cardTable
+	{
+		resource: 'cardTable',
+		operation: 'get',
+		parameters: { projectId: '1', cardTableId: '6' },
+		method: 'GET',
+		path: '/999/buckets/1/card_tables/6.json',
+		response: cardTable,
+	},
+
+	// cardTableColumn
+	{
+		resource: 'cardTableColumn',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			cardTableId: '6',
+			title: 'Review',
+			additionalFields: { description: 'Waiting for sign-off' },
+		},
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/6/columns.json',
+		response: cardTableColumn,
+		body: { title: 'Review', description: 'Waiting for sign-off' },
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'get',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		method: 'GET',
+		path: '/999/buckets/1/card_tables/columns/7.json',
+		response: cardTableColumn,
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'update',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7', updateFields: { title: 'Doing' } },
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/columns/7.json',
+		response: cardTableColumn,
+		body: { title: 'Doing' },
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'changeColor',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7', color: 'green' },
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/columns/7/color.json',
+		response: cardTableColumn,
+		body: { color: 'green' },
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'move',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7', position: 3 },
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/6/moves.json',
+		response: '',
+		output: { success: true, position: 3 },
+		body: { source_id: 7, target_id: 6, position: 3 },
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'putOnHold',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/columns/7/on_hold.json',
+		response: cardTableColumn,
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'removeOnHold',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		method: 'DELETE',
+		path: '/999/buckets/1/card_tables/columns/7/on_hold.json',
+		response: cardTableColumn,
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'subscribe',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/lists/7/subscription.json',
+		response: '',
+		output: { success: true, subscribed: true },
+	},
+	{
+		resource: 'cardTableColumn',
+		operation: 'unsubscribe',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		method: 'DELETE',
+		path: '/999/buckets/1/card_tables/lists/7/subscription.json',
+		response: '',
+		output: { success: true, subscribed: false },
+	},
+
+	// card
+	{
+		resource: 'card',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			cardTableId: '6',
+			columnId: '7',
+			title: 'Design the landing page',
+			additionalFields: {
+				content: 'Hero, pricing, FAQ',
+				assignee_ids: '10, 11',
+				due_on: '2026-10-31T00:00:00.000Z',
+				notify: true,
+			},
+			contentFormat: 'markdown',
+		},
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/lists/7/cards.json',
+		response: card,
+		body: {
+			title: 'Design the landing page',
+			content: '<div>Hero, pricing, FAQ</div>',
+			assignee_ids: [10, 11],
+			due_on: '2026-10-31',
+			notify: true,
+		},
+	},
+	{
+		resource: 'card',
+		operation: 'get',
+		parameters: { projectId: '1', cardTableId: '6', cardId: '8' },
+		method: 'GET',
+		path: '/999/buckets/1/card_tables/cards/8.json',
+		response: card,
+	},
+	{
+		resource: 'card',
+		operation: 'update',
+		parameters: {
+			projectId: '1',
+			cardTableId: '6',
+			cardId: '8',
+			updateFields: { title: 'Landing page', assignee_ids: ['10'] },
+		},
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/cards/8.json',
+		response: card,
+		body: { title: 'Landing page', assignee_ids: [10] },
+	},
+	{
+		resource: 'card',
+		operation: 'uncomplete',
+		parameters: { projectId: '1', cardTableId: '6', cardId: '8', columnId: '7' },
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/cards/8/moves.json',
+		response: '',
+		output: { success: true, completed: false, columnId: '7' },
+		body: { column_id: 7 },
+	},
+	{
+		resource: 'card',
+		operation: 'move',
+		parameters: {
+			projectId: '1',
+			cardTableId: '6',
+			cardId: '8',
+			destination: 'column',
+			columnId: '7',
+			position: 2,
+		},
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/cards/8/moves.json',
+		response: '',
+		output: { success: true, columnId: '7', position: 2 },
+		body: { column_id: 7, position: 2 },
+	},
+
+	// cardStep
+	{
+		resource: 'cardStep',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			cardId: '8',
+			title: 'Write the hero copy',
+			additionalFields: { assignee_ids: ['10', '11'], due_on: '2026-10-31T00:00:00.000Z' },
+		},
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/cards/8/steps.json',
+		response: cardStep,
+		body: { title: 'Write the hero copy', due_on: '2026-10-31', assignees: '10,11' },
+	},
+	{
+		resource: 'cardStep',
+		operation: 'update',
+		parameters: { projectId: '1', stepId: '25', updateFields: { title: 'Write the copy', assignee_ids: [] } },
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/steps/25.json',
+		response: cardStep,
+		body: { title: 'Write the copy', assignees: '' },
+	},
+	{
+		resource: 'cardStep',
+		operation: 'complete',
+		parameters: { projectId: '1', stepId: '25' },
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/steps/25/completions.json',
+		response: cardStep,
+		body: { completion: 'on' },
+	},
+	{
+		resource: 'cardStep',
+		operation: 'uncomplete',
+		parameters: { projectId: '1', stepId: '25' },
+		method: 'PUT',
+		path: '/999/buckets/1/card_tables/steps/25/completions.json',
+		response: cardStep,
+		body: { completion: 'off' },
+	},
+	{
+		resource: 'cardStep',
+		operation: 'reposition',
+		parameters: { projectId: '1', cardId: '8', stepId: '25', position: 2 },
+		method: 'POST',
+		path: '/999/buckets/1/card_tables/cards/8/positions.json',
+		response: '',
+		output: { success: true, position: 2 },
+		body: { source_id: 25, position: 1 },
+	},
+
+	// document
+	{
+		resource: 'document',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			vaultId: '9',
+			title: 'Brand guidelines',
+			content: '<div>Use the blue logo.</div>',
+			additionalFields: {},
+		},
+		method: 'POST',
+		path: '/999/buckets/1/vaults/9/documents.json',
+		response: document,
+		body: { title: 'Brand guidelines', content: '<div>Use the blue logo.</div>' },
+	},
+	{
+		resource: 'document',
+		operation: 'get',
+		parameters: { projectId: '1', vaultId: '9', documentId: '24' },
+		method: 'GET',
+		path: '/999/buckets/1/documents/24.json',
+		response: document,
+	},
+	{
+		resource: 'document',
+		operation: 'update',
+		parameters: {
+			projectId: '1',
+			vaultId: '9',
+			documentId: '24',
+			updateFields: { content: '<div>Use the red logo.</div>', attachmentSgids: 'sgid-1, sgid-2' },
+		},
+		method: 'PUT',
+		path: '/999/buckets/1/documents/24.json',
+		response: document,
+		body: {
+			content:
+				'<div>Use the red logo.</div><bc-attachment sgid="sgid-1"></bc-attachment><bc-attachment sgid="sgid-2"></bc-attachment>',
+		},
+	},
+
+	// person
+	{
+		resource: 'person',
+		operation: 'get',
+		parameters: { personId: '10' },
+		method: 'GET',
+		path: '/999/people/10.json',
+		response: person,
+	},
+	{
+		resource: 'person',
+		operation: 'getMe',
+		parameters: {},
+		method: 'GET',
+		path: '/999/my/profile.json',
+		response: person,
+	},
+
+	// question
+	{
+		resource: 'question',
+		operation: 'get',
+		parameters: { projectId: '1', questionnaireId: '12', questionId: '11' },
+		method: 'GET',
+		path: '/999/buckets/1/questions/11.json',
+		response: question,
+	},
+
+	// recording
+	{
+		resource: 'recording',
+		operation: 'archive',
+		parameters: { projectId: '1', recordingId: '24' },
+		method: 'PUT',
+		path: '/999/buckets/1/recordings/24/status/archived.json',
+		response: '',
+		output: { success: true, status: 'archived' },
+	},
+	{
+		resource: 'recording',
+		operation: 'trash',
+		parameters: { projectId: '1', recordingId: '24' },
+		method: 'PUT',
+		path: '/999/buckets/1/recordings/24/status/trashed.json',
+		response: '',
+		output: { success: true, status: 'trashed' },
+	},
+	{
+		resource: 'recording',
+		operation: 'unarchive',
+		parameters: { projectId: '1', recordingId: '24' },
+		method: 'PUT',
+		path: '/999/buckets/1/recordings/24/status/active.json',
+		response: '',
+		output: { success: true, status: 'active' },
+	},
+
+	// scheduleEntry
+	{
+		resource: 'scheduleEntry',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			scheduleId: '13',
+			summary: 'Launch party',
+			startsAt: '2026-11-01T18:00:00.000Z',
+			endsAt: '2026-11-01T21:00:00.000Z',
+			additionalFields: {},
+		},
+		method: 'POST',
+		path: '/999/buckets/1/schedules/13/entries.json',
+		response: scheduleEntry,
+		body: {
+			summary: 'Launch party',
+			starts_at: '2026-11-01T18:00:00.000Z',
+			ends_at: '2026-11-01T21:00:00.000Z',
+		},
+	},
+	{
+		resource: 'scheduleEntry',
+		operation: 'get',
+		parameters: { projectId: '1', scheduleId: '13', scheduleEntryId: '14' },
+		method: 'GET',
+		path: '/999/buckets/1/schedule_entries/14.json',
+		response: scheduleEntry,
+	},
+	{
+		resource: 'scheduleEntry',
+		operation: 'update',
+		parameters: {
+			projectId: '1',
+			scheduleId: '13',
+			scheduleEntryId: '14',
+			updateFields: { description: 'Bring snacks & drinks' },
+			contentFormat: 'plain',
+		},
+		method: 'PUT',
+		path: '/999/buckets/1/schedule_entries/14.json',
+		response: scheduleEntry,
+		body: { description: '<div>Bring snacks &amp; drinks</div>' },
+	},
+
+	// subscription
+	{
+		resource: 'subscription',
+		operation: 'get',
+		parameters: { projectId: '1', recordingId: '21' },
+		method: 'GET',
+		path: '/999/buckets/1/recordings/21/subscription.json',
+		response: subscription,
+	},
+	{
+		resource: 'subscription',
+		operation: 'subscribe',
+		parameters: { projectId: '1', recordingId: '21' },
+		method: 'POST',
+		path: '/999/buckets/1/recordings/21/subscription.json',
+		response: subscription,
+	},
+	{
+		resource: 'subscription',
+		operation: 'unsubscribe',
+		parameters: { projectId: '1', recordingId: '21' },
+		method: 'DELETE',
+		path: '/999/buckets/1/recordings/21/subscription.json',
+		response: '',
+		output: { success: true, subscribed: false },
+	},
+	{
+		resource: 'subscription',
+		operation: 'update',
+		parameters: { projectId: '1', recordingId: '21', subscriptions: ['10', '11'], unsubscriptions: ['12'] },
+		method: 'PUT',
+		path: '/999/buckets/1/recordings/21/subscription.json',
+		response: subscription,
+		body: { subscriptions: [10, 11], unsubscriptions: [12] },
+	},
+
+	// template
+	{
+		resource: 'template',
+		operation: 'get',
+		parameters: { templateId: '15' },
+		method: 'GET',
+		path: '/999/templates/15.json',
+		response: template,
+	},
+	{
+		resource: 'template',
+		operation: 'createProject',
+		parameters: { templateId: '15', name: 'Acme onboarding', additionalFields: {} },
+		method: 'POST',
+		path: '/999/templates/15/project_constructions.json',
+		response: projectConstruction,
+		body: { name: 'Acme onboarding' },
+	},
+
+	// upload
+	{
+		resource: 'upload',
+		operation: 'get',
+		parameters: { projectId: '1', uploadId: '16' },
+		method: 'GET',
+		path: '/999/buckets/1/uploads/16.json',
+		response: upload,
+	},
+
+	// vault
+	{
+		resource: 'vault',
+		operation: 'create',
+		parameters: { projectId: '1', parentVaultId: '9', title: 'Contracts' },
+		method: 'POST',
+		path: '/999/buckets/1/vaults/9/vaults.json',
+		response: vault,
+		body: { title: 'Contracts' },
+	},
+	{
+		resource: 'vault',
+		operation: 'get',
+		parameters: { projectId: '1', vaultId: '17' },
+		method: 'GET',
+		path: '/999/buckets/1/vaults/17.json',
+		response: vault,
+	},
+	{
+		resource: 'vault',
+		operation: 'update',
+		parameters: { projectId: '1', vaultId: '17', updateFields: { title: 'Signed contracts' } },
+		method: 'PUT',
+		path: '/999/buckets/1/vaults/17.json',
+		response: vault,
+		body: { title: 'Signed contracts' },
+	},
+
+	// webhook
+	{
+		resource: 'webhook',
+		operation: 'create',
+		parameters: {
+			projectId: '1',
+			payloadUrl: 'https://example.com/hooks/basecamp',
+			types: ['Todo', 'Message'],
+		},
+		method: 'POST',
+		path: '/999/buckets/1/webhooks.json',
+		response: webhook,
+		body: { payload_url: 'https://example.com/hooks/basecamp', types: ['Todo', 'Message'] },
+	},
+	{
+		resource: 'webhook',
+		operation: 'delete',
+		parameters: { projectId: '1', webhookId: '18' },
+		method: 'DELETE',
+		path: '/999/buckets/1/webhooks/18.json',
+		response: '',
+		output: { success: true },
+	},
+	{
+		resource: 'webhook',
+		operation: 'update',
+		parameters: { projectId: '1', webhookId: '18', types: ['Todo'], updateFields: { active: false } },
+		method: 'PUT',
+		path: '/999/buckets/1/webhooks/18.json',
+		response: webhook,
+		body: { types: ['Todo'], active: false },
+	},
+];
+
+/**
+ * Every Get Many branch, with the list endpoint it reads and a recorded item
+ */
+const getManyCases: Array<Omit<IOperationCase, 'method' | 'response'> & { item: IDataObject }> = [
+	{ resource: 'project', operation: 'getAll', parameters: {}, path: '/999/projects.json', item: project },
+	{
+		resource: 'todolist',
+		operation: 'getAll',
+		parameters: { projectId: '1', todosetId: '2' },
+		path: '/999/buckets/1/todosets/2/todolists.json',
+		item: todolist,
+	},
+	{
+		resource: 'todolist',
+		operation: 'getGroups',
+		parameters: { projectId: '1', todolistId: '3' },
+		path: '/999/buckets/1/todolists/3/groups.json',
+		item: todolistGroup,
+	},
+	{
+		resource: 'todo',
+		operation: 'getAll',
+		parameters: { projectId: '1', todolistId: '3', filters: {} },
+		path: '/999/buckets/1/todolists/3/todos.json',
+		item: todo,
+	},
+	{
+		resource: 'message',
+		operation: 'getAll',
+		parameters: { projectId: '1', messageBoardId: '20' },
+		path: '/999/buckets/1/message_boards/20/messages.json',
+		item: message,
+	},
+	{
+		resource: 'comment',
+		operation: 'getAll',
+		parameters: { projectId: '1', recordingId: '21' },
+		path: '/999/buckets/1/recordings/21/comments.json',
+		item: comment,
+	},
+	{
+		resource: 'campfireLine',
+		operation: 'getAll',
+		parameters: { projectId: '1', campfireId: '5' },
+		path: '/999/buckets/1/chats/5/lines.json',
+		item: chatLine,
+	},
+	{
+		resource: 'card',
+		operation: 'getAll',
+		parameters: { projectId: '1', cardTableId: '6', columnId: '7' },
+		path: '/999/buckets/1/card_tables/lists/7/cards.json',
+		item: card,
+	},
+	{
+		resource: 'document',
+		operation: 'getAll',
+		parameters: { projectId: '1', vaultId: '9' },
+		path: '/999/buckets/1/vaults/9/documents.json',
+		item: document,
+	},
+	{
+		resource: 'event',
+		operation: 'getAll',
+		parameters: { projectId: '1' },
+		path: '/999/buckets/1/recordings/1/events.json',
+		item: event,
+	},
+	{ resource: 'person', operation: 'getAll', parameters: {}, path: '/999/people.json', item: person },
+	{
+		resource: 'question',
+		operation: 'getAll',
+		parameters: { projectId: '1', questionnaireId: '12' },
+		path: '/999/buckets/1/questionnaires/12/questions.json',
+		item: question,
+	},
+	{
+		resource: 'questionAnswer',
+		operation: 'getAll',
+		parameters: { projectId: '1', questionId: '11' },
+		path: '/999/buckets/1/questions/11/answers.json',
+		item: answer,
+	},
+	{
+		resource: 'recording',
+		operation: 'getAll',
+		parameters: { type: 'Document', filters: {} },
+		path: '/999/projects/recordings.json',
+		item: document,
+	},
+	{
+		resource: 'scheduleEntry',
+		operation: 'getAll',
+		parameters: { projectId: '1', scheduleId: '13' },
+		path: '/999/buckets/1/schedules/13/entries.json',
+		item: scheduleEntry,
+	},
+	{ resource: 'template', operation: 'getAll', parameters: {}, path: '/999/templates.json', item: template },
+	{
+		resource: 'upload',
+		operation: 'getAll',
+		parameters: { projectId: '1', vaultId: '9', download: false },
+		path: '/999/buckets/1/vaults/9/uploads.json',
+		item: upload,
+	},
+	{
+		resource: 'vault',
+		operation: 'getAll',
+		parameters: { projectId: '1', parentVaultId: '9' },
+		path: '/999/buckets/1/vaults/9/vaults.json',
+		item: vault,
+	},
+	{
+		resource: 'webhook',
+		operation: 'getAll',
+		parameters: { projectId: '1' },
+		path: '/999/buckets/1/webhooks.json',
+		item: webhook,
+	},
+];
+
+describe('Basecamp', () => {
+	const node = new Basecamp();
+	let mock: BasecampMock;
+
+	beforeEach(() => {
+		mock = new BasecampMock();
+	});
+
+	const run = async (parameters: IDataObject, options: { continueOnFail?: boolean } = {}) =>
+		await node.execute.call(createExecuteContext(mock, { parameters, ...options }));
+
+	describe.each(cases)('$resource: $operation', ({ resource, operation, parameters, method, path, response, output, body }) => {
+		it(`sends ${method} ${path}`, async () => {
+			mock.on(method, path, response);
+
+			const [items] = await run({ resource, operation, ...parameters });
+
+			const requests = mock.requestsTo(method, path);
+			expect(requests).toHaveLength(1);
+			if (body) {
+				expect(requests[0].body).toEqual(body);
+			}
+			expect(items).toEqual([{ json: output ?? response, pairedItem: { item: 0 } }]);
+		});
+	});
+
+	describe.each(getManyCases)('$resource: $operation', ({ resource, operation, parameters, path, item }) => {
+		it('follows the Link header when returning all items', async () => {
+			const second = { ...item, id: 1000 };
+			mock.on('GET', path, [item], { link: `<https://3.basecampapi.com${path}?page=2>; rel="next"` });
+			mock.on('GET', `${path}?page=2`, [second]);
+
+			const [items] = await run({ resource, operation, returnAll: true, ...parameters });
+
+			expect(items.map(({ json }) => json)).toEqual([item, second]);
+		});
+
+		it('returns at most the limit', async () => {
+			mock.on('GET', path, [item, { ...item, id: 1000 }, { ...item, id: 1001 }]);
+
+			const [items] = await run({ resource, operation, returnAll: false, limit: 2, ...parameters });
+
+			expect(items.map(({ json }) => json.id)).toEqual([item.id, 1000]);
+		});
+	});
+
+	describe('todolist: todoset discovery', () => {
+		it('resolves the todoset from the dock once per project', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('POST', '/999/buckets/1/todosets/2/todolists.json', todolist);
+
+			const [items] = await node.execute.call(
+				createExecuteContext(mock, {
+					parameters: {
+						resource: 'todolist',
+						operation: 'create',
+						projectId: '1',
+						todosetId: '',
+						name: 'Launch checklist',
+						additionalFields: {},
+					},
+					items: [{ json: {} }, { json: {} }, { json: {} }],
+				}),
+			);
+
+			expect(items).toHaveLength(3);
+			expect(mock.requestsTo('GET', '/999/projects/1.json')).toHaveLength(1);
+		});
+
+		it('fails when the project has no to-do set', async () => {
+			mock.on('GET', '/999/projects/1.json', { ...project, dock: [] });
+
+			await expect(
+				run({ resource: 'todolist', operation: 'getAll', projectId: '1', todosetId: '', returnAll: true }),
+			).rejects.toThrow('Project 1 has no enabled "todoset" tool');
+		});
+	});
+
+	describe('omitted tool IDs', () => {
+		it.each([
+			['message', 'getAll', '/999/buckets/1/message_boards/20/messages.json', { messageBoardId: '' }],
+			['campfireLine', 'getAll', '/999/buckets/1/chats/5/lines.json', { campfireId: '' }],
+			['document', 'getAll', '/999/buckets/1/vaults/9/documents.json', { vaultId: '' }],
+			['scheduleEntry', 'getAll', '/999/buckets/1/schedules/13/entries.json', { scheduleId: '' }],
+			['vault', 'getAll', '/999/buckets/1/vaults/9/vaults.json', { parentVaultId: '' }],
+		])('%s: %s reads the tool from the dock', async (resource, operation, path, parameters) => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('GET', path, []);
+
+			await node.execute.call(
+				createExecuteContext(mock, {
+					parameters: { resource, operation, projectId: '1', returnAll: true, ...parameters },
+					items: [{ json: {} }, { json: {} }],
+				}),
+			);
+
+			expect(mock.requestsTo('GET', '/999/projects/1.json')).toHaveLength(1);
+			expect(mock.requestsTo('GET', path)).toHaveLength(2);
+		});
+
+		it('cardTableColumn: create adds the column to the card table of the project', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('POST', '/999/buckets/1/card_tables/6/columns.json', cardTableColumn);
+
+			await run({
+				resource: 'cardTableColumn',
+				operation: 'create',
+				projectId: '1',
+				cardTableId: '',
+				title: 'Review',
+				additionalFields: {},
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/card_tables/6/columns.json')).toHaveLength(1);
+		});
+
+		it('cardTable: get reads the card table from the dock', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('GET', '/999/buckets/1/card_tables/6.json', cardTable);
+
+			const [items] = await run({ resource: 'cardTable', operation: 'get', projectId: '1', cardTableId: '' });
+
+			expect(items[0].json).toEqual(cardTable);
+		});
+	});
+
+	describe('resource locators', () => {
+		const locator = (mode: string, value: string) => ({ __rl: true, mode, value });
+
+		const resolve = (typeVersion: number, parameters: INodeParameters) =>
+			NodeHelpers.getNodeParameters(
+				node.description.properties,
+				parameters,
+				true,
+				false,
+				{ typeVersion },
+				node.description,
+			);
+
+		it('keeps the plain ID fields of version 1 and defaults version 2 to locators', () => {
+			const parameters = { resource: 'todo', operation: 'get', projectId: '1', todoId: '4' };
+
+			expect(resolve(1, parameters)).toMatchObject({ projectId: '1', todoId: '4' });
+			expect(resolve(1, { resource: 'todo', operation: 'get' })).toMatchObject({ projectId: '', todoId: '' });
+			expect(resolve(2, { resource: 'todo', operation: 'get' })).toMatchObject({
+				projectId: { __rl: true, mode: 'list', value: '' },
+				todoId: { __rl: true, mode: 'list', value: '' },
+			});
+		});
+
+		it('reads the values picked from the list', async () => {
+			mock.on('GET', '/999/buckets/1/todos/4.json', todo);
+
+			const [items] = await run({
+				resource: 'todo',
+				operation: 'get',
+				projectId: locator('list', '1'),
+				todoId: locator('list', '4'),
+			});
+
+			expect(items[0].json).toEqual(todo);
+		});
+
+		it('takes the project of a pasted link over the project field', async () => {
+			mock.on('GET', '/999/buckets/77/todos/4.json', todo);
+
+			await run({
+				resource: 'todo',
+				operation: 'get',
+				projectId: locator('list', '1'),
+				todoId: locator('url', 'https://3.basecamp.com/999/buckets/77/todos/4'),
+			});
+
+			expect(mock.requestsTo('GET', '/999/buckets/77/todos/4.json')).toHaveLength(1);
+		});
+
+		it('comment: getAll accepts a link to any kind of recording', async () => {
+			mock.on('GET', '/999/buckets/1/recordings/8/comments.json', [comment]);
+
+			const [items] = await run({
+				resource: 'comment',
+				operation: 'getAll',
+				projectId: locator('id', '1'),
+				recordingId: locator('url', 'https://3.basecamp.com/999/buckets/1/card_tables/cards/8#__recording_22'),
+				returnAll: true,
+			});
+
+			expect(items.map(({ json }) => json)).toEqual([comment]);
+		});
+
+		it('fails on a link that names no recording', async () => {
+			await expect(
+				run({
+					resource: 'message',
+					operation: 'get',
+					projectId: locator('id', '1'),
+					messageId: locator('url', 'https://3.basecamp.com/999/projects/1'),
+				}),
+			).rejects.toThrow('"https://3.basecamp.com/999/projects/1" is not a link to a Basecamp recording');
+		});
+
+		it('fails on a link into another account', async () => {
+			await expect(
+				run({
+					resource: 'todo',
+					operation: 'get',
+					projectId: locator('id', '1'),
+					todoId: locator('url', 'https://3.basecamp.com/123/buckets/1/todos/4'),
+				}),
+			).rejects.toThrow('belongs to Basecamp account 123, not to the selected account 999');
+		});
+
+		it('fails on a link to another kind of recording', async () => {
+			await expect(
+				run({
+					resource: 'document',
+					operation: 'get',
+					projectId: locator('id', '1'),
+					documentId: locator('url', 'https://3.basecamp.com/999/buckets/1/todos/4'),
+				}),
+			).rejects.toThrow('links to a Todo, not to a Document');
+		});
+
+		it('scheduleEntry: update accepts an API link', async () => {
+			mock.on('PUT', '/999/buckets/1/schedule_entries/14.json', scheduleEntry);
+
+			await run({
+				resource: 'scheduleEntry',
+				operation: 'update',
+				projectId: locator('list', '1'),
+				scheduleEntryId: locator('url', 'https://3.basecampapi.com/999/buckets/1/schedule_entries/14.json'),
+				updateFields: { summary: 'Launch party' },
+			});
+
+			expect(mock.requestsTo('PUT', '/999/buckets/1/schedule_entries/14.json')).toHaveLength(1);
+		});
+
+		it('campfireLine: get reads the campfire from a link', async () => {
+			mock.on('GET', '/999/buckets/1/chats/50/lines/23.json', chatLine);
+
+			await run({
+				resource: 'campfireLine',
+				operation: 'get',
+				projectId: locator('list', '1'),
+				campfireId: '5',
+				lineId: locator('url', 'https://3.basecamp.com/999/buckets/1/chats/50/lines/23'),
+			});
+
+			expect(mock.requestsTo('GET', '/999/buckets/1/chats/50/lines/23.json')).toHaveLength(1);
+		});
+
+		it('campfireLine: delete does not look up the campfire when the link names it', async () => {
+			mock.on('GET', '/999/projects/1.json', { ...project, dock: [] });
+			mock.on('DELETE', '/999/buckets/7/chats/50/lines/23.json', '');
+
+			await run({
+				resource: 'campfireLine',
+				operation: 'delete',
+				projectId: locator('list', '1'),
+				campfireId: '',
+				lineId: locator('url', 'https://3.basecamp.com/999/buckets/7/chats/50/lines/23'),
+			});
+
+			expect(mock.requests).toHaveLength(1);
+			expect(mock.requestsTo('DELETE', '/999/buckets/7/chats/50/lines/23.json')).toHaveLength(1);
+		});
+
+		it('project: get reads the project from a link', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+
+			const [items] = await run({
+				resource: 'project',
+				operation: 'get',
+				projectId: locator('url', 'https://3.basecamp.com/999/projects/1'),
+			});
+
+			expect(items[0].json).toEqual(project);
+		});
+	});
+
+	describe('recording: getAll', () => {
+		it('passes the type and filters as query parameters', async () => {
+			mock.on('GET', '/999/projects/recordings.json', [document]);
+
+			await run({
+				resource: 'recording',
+				operation: 'getAll',
+				type: 'Document',
+				returnAll: true,
+				filters: { bucket: ['1', '2'], status: 'archived', sort: 'updated_at', direction: 'asc' },
+			});
+
+			expect(mock.requests[0].qs).toEqual({
+				type: 'Document',
+				bucket: '1,2',
+				status: 'archived',
+				sort: 'updated_at',
+				direction: 'asc',
+			});
+		});
+
+		it('accepts the projects as a comma-separated string', async () => {
+			mock.on('GET', '/999/projects/recordings.json', [document]);
+
+			await run({
+				resource: 'recording',
+				operation: 'getAll',
+				type: 'Document',
+				returnAll: true,
+				filters: { bucket: '1, 2' },
+			});
+
+			expect(mock.requests[0].qs).toEqual({ type: 'Document', bucket: '1,2' });
+		});
+
+		it('trash: takes the project from a pasted link', async () => {
+			mock.on('PUT', '/999/buckets/7/recordings/8/status/trashed.json', '');
+
+			await run({
+				resource: 'recording',
+				operation: 'trash',
+				projectId: '1',
+				recordingId: {
+					__rl: true,
+					mode: 'url',
+					value: 'https://3.basecamp.com/999/buckets/7/card_tables/cards/8',
+				},
+			});
+
+			expect(mock.requestsTo('PUT', '/999/buckets/7/recordings/8/status/trashed.json')).toHaveLength(1);
+		});
+	});
+
+	describe('subscription: update', () => {
+		it('fails when nobody is subscribed or unsubscribed', async () => {
+			await expect(
+				run({
+					resource: 'subscription',
+					operation: 'update',
+					projectId: '1',
+					recordingId: '21',
+					subscriptions: [],
+					unsubscriptions: [],
+				}),
+			).rejects.toThrow('Select at least one person to subscribe or unsubscribe');
+			expect(mock.requests).toHaveLength(0);
+		});
+
+		it('accepts people as a comma-separated string and drops invalid IDs', async () => {
+			mock.on('PUT', '/999/buckets/1/recordings/21/subscription.json', subscription);
+
+			await run({
+				resource: 'subscription',
+				operation: 'update',
+				projectId: '1',
+				recordingId: '21',
+				subscriptions: '10, someone',
+				unsubscriptions: '',
+			});
+
+			expect(mock.requests[0].body).toEqual({ subscriptions: [10], unsubscriptions: [] });
+		});
+	});
+
+	describe('card: move', () => {
+		it('moves the card to the Done column of the project card table', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('GET', '/999/buckets/1/card_tables/6.json', cardTable);
+			mock.on('POST', '/999/buckets/1/card_tables/cards/8/moves.json', '');
+
+			const [items] = await run({
+				resource: 'card',
+				operation: 'move',
+				projectId: '1',
+				cardTableId: '',
+				cardId: '8',
+				destination: 'done',
+				position: 1,
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/card_tables/cards/8/moves.json')[0].body).toEqual({
+				column_id: 71,
+				position: 1,
+			});
+			expect(items[0].json).toEqual({ success: true, columnId: '71', position: 1 });
+		});
+
+		it('fails when the card table has no such column', async () => {
+			mock.on('GET', '/999/buckets/1/card_tables/6.json', cardTable);
+
+			await expect(
+				run({
+					resource: 'card',
+					operation: 'move',
+					projectId: '1',
+					cardTableId: '6',
+					cardId: '8',
+					destination: 'notNow',
+					position: 1,
+				}),
+			).rejects.toThrow('Card table 6 has no "Kanban::NotNowColumn" column');
+		});
+	});
+
+	describe('card: complete', () => {
+		it('moves the card to the Done column of the card table', async () => {
+			mock.on('GET', '/999/buckets/1/card_tables/6.json', cardTable);
+			mock.on('POST', '/999/buckets/1/card_tables/cards/8/moves.json', '');
+
+			const [items] = await run({
+				resource: 'card',
+				operation: 'complete',
+				projectId: '1',
+				cardTableId: '6',
+				cardId: '8',
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/card_tables/cards/8/moves.json')[0].body).toEqual({
+				column_id: 71,
+			});
+			expect(items[0].json).toEqual({ success: true, completed: true, columnId: '71' });
+		});
+	});
+
+	describe('card: update', () => {
+		it('clears the assignees when the selection is left empty', async () => {
+			mock.on('PUT', '/999/buckets/1/card_tables/cards/8.json', card);
+
+			await run({
+				resource: 'card',
+				operation: 'update',
+				projectId: '1',
+				cardId: '8',
+				updateFields: { assignee_ids: [] },
+			});
+
+			expect(mock.requests[0].body).toEqual({ assignee_ids: [] });
+		});
+	});
+
+	describe('card: get', () => {
+		it('includes the steps of the card', async () => {
+			mock.on('GET', '/999/buckets/1/card_tables/cards/8.json', card);
+
+			const [items] = await run({
+				resource: 'card',
+				operation: 'get',
+				projectId: '1',
+				cardTableId: '',
+				cardId: '8',
+			});
+
+			expect(items[0].json.steps).toEqual([cardStep]);
+		});
+	});
+
+	describe('cardStep: reposition', () => {
+		it('takes the project from the card link', async () => {
+			mock.on('POST', '/999/buckets/1/card_tables/cards/8/positions.json', '');
+
+			await run({
+				resource: 'cardStep',
+				operation: 'reposition',
+				projectId: '2',
+				cardId: { __rl: true, mode: 'url', value: 'https://3.basecamp.com/999/buckets/1/card_tables/cards/8' },
+				stepId: {
+					__rl: true,
+					mode: 'url',
+					value: 'https://3.basecampapi.com/999/buckets/1/card_tables/steps/25.json',
+				},
+				position: 1,
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/card_tables/cards/8/positions.json')[0].body).toEqual({
+				source_id: 25,
+				position: 0,
+			});
+		});
+
+		it('rejects a link to another kind of recording', async () => {
+			await expect(
+				run({
+					resource: 'cardStep',
+					operation: 'complete',
+					projectId: '1',
+					stepId: { __rl: true, mode: 'url', value: 'https://3.basecamp.com/999/buckets/1/card_tables/cards/8' },
+				}),
+			).rejects.toThrow('links to a Kanban::Card, not to a Kanban::Step');
+		});
+	});
+
+	describe('todo: move', () => {
+		it('moves the to-do to the top level of the target list without a group', async () => {
+			mock.on('PUT', '/999/buckets/1/todos/4/position.json', '');
+
+			const [items] = await run({
+				resource: 'todo',
+				operation: 'move',
+				projectId: '1',
+				todoId: '4',
+				targetTodolistId: '3',
+				targetGroupId: '',
+				position: 1,
+			});
+
+			expect(mock.requestsTo('PUT', '/999/buckets/1/todos/4/position.json')[0].body).toEqual({
+				position: 1,
+				parent_id: 3,
+			});
+			expect(items[0].json).toEqual({ success: true, parentId: '3', position: 1 });
+		});
+
+		it('fails for a to-do of another project', async () => {
+			await expect(
+				run({
+					resource: 'todo',
+					operation: 'move',
+					projectId: '1',
+					todoId: { __rl: true, mode: 'url', value: 'https://3.basecamp.com/999/buckets/7/todos/4' },
+					targetTodolistId: '3',
+					targetGroupId: '',
+					position: 1,
+				}),
+			).rejects.toThrow('To-do 4 belongs to project 7 and can only be moved within that project');
+			expect(mock.requests).toHaveLength(0);
+		});
+	});
+
+	describe('todo: search', () => {
+		const path = '/999/projects/recordings.json';
+
+		it('lists to-dos of the selected projects that pass the filters', async () => {
+			const unassigned = { ...todo, id: 1000, assignees: [] };
+			mock.on('GET', path, [todo, unassigned]);
+
+			const [items] = await run({
+				resource: 'todo',
+				operation: 'search',
+				returnAll: true,
+				filters: { projects: ['1', '7'], assigneeIds: '10', dueBefore: '2026-10-31T00:00:00.000Z' },
+			});
+
+			expect(mock.requests[0].qs).toEqual({ type: 'Todo', bucket: '1,7' });
+			expect(items.map(({ json }) => json)).toEqual([todo]);
+		});
+
+		it('stops reading pages once the limit is reached', async () => {
+			const later = { ...todo, id: 1000, due_on: '2026-12-01' };
+			mock.on('GET', path, [later, todo], { link: `<https://3.basecampapi.com${path}?page=2>; rel="next"` });
+			mock.on('GET', `${path}?page=2`, [{ ...todo, id: 1001 }]);
+
+			const [items] = await run({
+				resource: 'todo',
+				operation: 'search',
+				returnAll: false,
+				limit: 1,
+				filters: { dueBefore: '2026-11-01T00:00:00.000Z' },
+			});
+
+			expect(mock.requests).toHaveLength(1);
+			expect(items.map(({ json }) => json.id)).toEqual([todo.id]);
+		});
+
+		it('accepts the projects as a comma-separated string', async () => {
+			mock.on('GET', path, [todo]);
+
+			await run({ resource: 'todo', operation: 'search', returnAll: true, filters: { projects: '1, 7' } });
+
+			expect(mock.requests[0].qs).toEqual({ type: 'Todo', bucket: '1,7' });
+		});
+
+		it('fails on a date that cannot be read', async () => {
+			await expect(
+				run({ resource: 'todo', operation: 'search', returnAll: true, filters: { dueBefore: 'next week' } }),
+			).rejects.toThrow('"Due Before" is not a valid date: next week');
+			expect(mock.requests).toHaveLength(0);
+		});
+
+		it('decides what is overdue in the time zone of the workflow', async () => {
+			jest.useFakeTimers({ now: new Date('2026-11-01T02:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+			mock.on('GET', path, [todo]);
+
+			try {
+				const search = async (timezone: string) =>
+					await node.execute.call(
+						createExecuteContext(mock, {
+							parameters: { resource: 'todo', operation: 'search', returnAll: true, filters: { overdue: true } },
+							timezone,
+						}),
+					);
+
+				// Due on 2026-10-31, which is still today in Los Angeles
+				const [[utc], [losAngeles]] = await Promise.all([search('UTC'), search('America/Los_Angeles')]);
+				expect(utc.map(({ json }) => json.id)).toEqual([todo.id]);
+				expect(losAngeles).toEqual([]);
+			} finally {
+				jest.useRealTimers();
+			}
+		});
+	});
+
+	describe('todo: getAll', () => {
+		it('passes the filters as query parameters', async () => {
+			mock.on('GET', '/999/buckets/1/todolists/3/todos.json', [todo]);
+
+			await run({
+				resource: 'todo',
+				operation: 'getAll',
+				projectId: '1',
+				todolistId: '3',
+				returnAll: true,
+				filters: { status: 'archived', completed: true },
+			});
+
+			expect(mock.requests[0].qs).toEqual({ status: 'archived', completed: true });
+		});
+	});
+
+	describe('message: create', () => {
+		it('mentions the selected people and resolves inline mentions', async () => {
+			mock.on('GET', '/999/projects/1/people.json', [person]);
+			mock.on('POST', '/999/buckets/1/message_boards/20/messages.json', message);
+
+			await run({
+				resource: 'message',
+				operation: 'create',
+				projectId: '1',
+				messageBoardId: '20',
+				subject: 'Kickoff',
+				additionalFields: {
+					content: '<div>Thanks @Victor Cooper</div>',
+					mentionPersonIds: ['10'],
+					resolveMentions: true,
+				},
+			});
+
+			const mention = `<bc-attachment sgid="${person.attachable_sgid}"></bc-attachment>`;
+			expect(mock.requestsTo('POST', '/999/buckets/1/message_boards/20/messages.json')[0].body).toEqual({
+				subject: 'Kickoff',
+				content: `${mention} <div>Thanks ${mention}</div>`,
+			});
+		});
+
+		it('reads mentioned people given as a comma-separated string', async () => {
+			const colleague = { ...person, id: 11, attachable_sgid: 'sgid-11' };
+			mock.on('GET', '/999/projects/1/people.json', [person, colleague]);
+			mock.on('POST', '/999/buckets/1/recordings/21/comments.json', comment);
+
+			await run({
+				resource: 'comment',
+				operation: 'create',
+				projectId: '1',
+				recordingId: '21',
+				content: '<div>Done</div>',
+				additionalFields: { mentionPersonIds: '10,11' },
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/recordings/21/comments.json')[0].body).toEqual({
+				content:
+					`<bc-attachment sgid="${person.attachable_sgid}"></bc-attachment> ` +
+					'<bc-attachment sgid="sgid-11"></bc-attachment> <div>Done</div>',
+			});
+		});
+
+		it('fails when a mentioned person is not on the project', async () => {
+			mock.on('GET', '/999/projects/1/people.json', [person]);
+
+			await expect(
+				run({
+					resource: 'message',
+					operation: 'create',
+					projectId: '1',
+					messageBoardId: '20',
+					subject: 'Kickoff',
+					additionalFields: { mentionPersonIds: ['77'] },
+				}),
+			).rejects.toThrow('Person 77 is not a member of project 1');
+		});
+	});
+
+	describe('attachments and uploads', () => {
+		const items = [
+			{
+				json: {},
+				binary: {
+					data: { data: Buffer.from('logo').toString('base64'), mimeType: 'image/png', fileName: 'logo.png' },
+				},
+			},
+		];
+
+		const runWithBinary = async (parameters: IDataObject) =>
+			await node.execute.call(createExecuteContext(mock, { parameters, items }));
+
+		it('attachment: create returns the attachable SGID', async () => {
+			mock.on('POST', '/999/attachments.json', JSON.stringify({ attachable_sgid: 'sgid-1' }));
+
+			const [output] = await runWithBinary({
+				resource: 'attachment',
+				operation: 'create',
+				binaryPropertyName: 'data',
+			});
+
+			expect(mock.requests[0].qs).toEqual({ name: 'logo.png' });
+			expect(mock.requests[0].body).toEqual(Buffer.from('logo'));
+			expect(output).toEqual([{ json: { attachable_sgid: 'sgid-1' }, pairedItem: { item: 0 } }]);
+		});
+
+		it('attachment: create fails without binary data', async () => {
+			await expect(
+				run({ resource: 'attachment', operation: 'create', binaryPropertyName: 'data' }),
+			).rejects.toThrow("binary file 'data'");
+		});
+
+		it('upload: create uploads the file into the vault', async () => {
+			mock.on('POST', '/999/attachments.json', JSON.stringify({ attachable_sgid: 'sgid-1' }));
+			mock.on('POST', '/999/buckets/1/vaults/9/uploads.json', upload);
+
+			const [output] = await runWithBinary({
+				resource: 'upload',
+				operation: 'create',
+				projectId: '1',
+				vaultId: '9',
+				binaryPropertyName: 'data',
+				additionalFields: { description: 'Our logo' },
+			});
+
+			expect(mock.requestsTo('POST', '/999/buckets/1/vaults/9/uploads.json')[0].body).toEqual({
+				attachable_sgid: 'sgid-1',
+				description: 'Our logo',
+			});
+			expect(output).toEqual([{ json: upload, pairedItem: { item: 0 } }]);
+		});
+
+		it('upload: download returns the file as binary data', async () => {
+			mock.on('GET', '/999/buckets/1/uploads/16.json', upload);
+			mock.on('GET', '/999/blobs/abc/download/logo.png', Buffer.from('logo'));
+
+			const [output] = await run({
+				resource: 'upload',
+				operation: 'download',
+				projectId: '1',
+				uploadId: '16',
+				binaryPropertyName: 'data',
+			});
+
+			expect(output).toEqual([
+				{
+					json: upload,
+					binary: {
+						data: { data: Buffer.from('logo').toString('base64'), fileName: 'logo.png', mimeType: 'image/png' },
+					},
+					pairedItem: { item: 0 },
+				},
+			]);
+			expect(mock.requestsTo('GET', '/999/blobs/abc/download/logo.png')[0].useStream).toBe(true);
+		});
+
+		it('upload: getAll downloads every file when enabled', async () => {
+			mock.on('GET', '/999/buckets/1/vaults/9/uploads.json', [upload]);
+			mock.on('GET', '/999/blobs/abc/download/logo.png', Buffer.from('logo'));
+
+			const [output] = await run({
+				resource: 'upload',
+				operation: 'getAll',
+				projectId: '1',
+				vaultId: '9',
+				returnAll: true,
+				download: true,
+				binaryPropertyName: 'file',
+			});
+
+			expect(output).toHaveLength(1);
+			expect(output[0].binary?.file.fileName).toBe('logo.png');
+		});
+	});
+
+	describe('errors', () => {
+		it('throws the API error by default', async () => {
+			mock.respond('GET', '/999/projects/1.json', { statusCode: 403, body: { error: 'Forbidden' } });
+
+			await expect(run({ resource: 'project', operation: 'get', projectId: '1' })).rejects.toThrow();
+		});
+
+		it('returns the error as output item when continuing on fail', async () => {
+			mock.respond('GET', '/999/projects/1.json', { statusCode: 404, body: { error: 'Not found' } });
+
+			const [items] = await run(
+				{ resource: 'project', operation: 'get', projectId: '1' },
+				{ continueOnFail: true },
+			);
+
+			expect(items).toHaveLength(1);
+			expect(items[0].json.error).toEqual(expect.any(String));
+			expect(items[0].pairedItem).toEqual({ item: 0 });
+		});
+
+		it('keeps processing later items after a failed one', async () => {
+			mock.respond('GET', '/999/projects/1.json', { statusCode: 404, body: { error: 'Not found' } });
+			mock.on('GET', '/999/projects/1.json', project);
+
+			const [items] = await node.execute.call(
+				createExecuteContext(mock, {
+					parameters: { resource: 'project', operation: 'get', projectId: '1' },
+					items: [{ json: {} }, { json: {} }],
+					continueOnFail: true,
+				}),
+			);
+
+			expect(items.map(({ json }) => json.id ?? 'error')).toEqual(['error', 1]);
+			expect(items[1].pairedItem).toEqual({ item: 1 });
+		});
+
+		it('retries rate-limited requests after Retry-After', async () => {
+			mock.respond('GET', '/999/projects/1.json', {
+				statusCode: 429,
+				headers: { 'retry-after': '0' },
+				body: { error: 'Too many requests' },
+			});
+			mock.on('GET', '/999/projects/1.json', project);
+
+			const [items] = await run({ resource: 'project', operation: 'get', projectId: '1' });
+
+			expect(mock.requests).toHaveLength(2);
+			expect(items[0].json).toEqual(project);
+		});
+
+		it('fails instead of waiting for a Retry-After above the cap', async () => {
+			mock.respond('GET', '/999/projects/1.json', {
+				statusCode: 429,
+				headers: { 'retry-after': '3600' },
+				body: { error: 'Too many requests' },
+			});
+
+			await expect(run({ resource: 'project', operation: 'get', projectId: '1' })).rejects.toThrow(
+				'Basecamp asked to retry after 3600s, longer than the 60s the node waits',
+			);
+			expect(mock.requests).toHaveLength(1);
+		});
+	});
+});
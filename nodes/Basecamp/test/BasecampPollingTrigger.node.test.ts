@@ -0,0 +1,131 @@
+import type { IDataObject } from 'n8n-workflow';
+
+import { BasecampPollingTrigger } from '../BasecampPollingTrigger.node';
+import { BasecampMock, createPollContext } from './mock';
+
+import event from './fixtures/event.json';
+import project from './fixtures/project.json';
+import todo from './fixtures/todo.json';
+
+describe('BasecampPollingTrigger', () => {
+	const node = new BasecampPollingTrigger();
+	const path = '/999/projects/recordings.json';
+	let mock: BasecampMock;
+	let staticData: IDataObject;
+
+	beforeEach(() => {
+		mock = new BasecampMock();
+		staticData = {};
+	});
+
+	const poll = async (parameters: IDataObject, mode: 'manual' | 'trigger' = 'trigger') => {
+		const result = await node.poll.call(createPollContext(mock, { parameters, staticData, mode }));
+		return result ? result[0].map(({ json }) => json) : null;
+	};
+
+	// Each poll gets a fresh mock, so later polls see only their own responses
+	const nextPoll = () => {
+		mock = new BasecampMock();
+	};
+
+	const at = (updatedAt: string, id = todo.id) => ({ ...todo, id, updated_at: updatedAt });
+
+	describe('recordings', () => {
+		const parameters = { source: 'recordings', recordingTypes: ['Todo'], projectIds: [] };
+
+		it('only sets the high-water mark on the first poll', async () => {
+			mock.on('GET', path, [at('2026-09-02T10:30:00.000Z'), at('2026-09-01T09:00:00.000Z', 5)]);
+
+			expect(await poll(parameters)).toBeNull();
+			expect(staticData.states).toEqual({
+				'recordings:Todo': { highWaterMark: '2026-09-02T10:30:00.000Z', seenKeys: ['4:2026-09-02T10:30:00.000Z'] },
+			});
+		});
+
+		it('emits the newest recording on a manual first poll', async () => {
+			mock.on('GET', path, [at('2026-09-02T10:30:00.000Z'), at('2026-09-01T09:00:00.000Z', 5)]);
+
+			expect(await poll(parameters, 'manual')).toEqual([at('2026-09-02T10:30:00.000Z')]);
+		});
+
+		it('emits recordings changed after the high-water mark, once', async () => {
+			mock.on('GET', path, [at('2026-09-02T10:30:00.000Z')]);
+			await poll(parameters);
+
+			const changed = at('2026-09-03T08:00:00.000Z');
+			const sameTime = at('2026-09-03T08:00:00.000Z', 6);
+			nextPoll();
+			mock.on('GET', path, [changed, at('2026-09-01T09:00:00.000Z', 5)]);
+			expect(await poll(parameters)).toEqual([changed]);
+
+			nextPoll();
+			// A recording sharing the mark's timestamp is still new, the emitted one is not
+			mock.on('GET', path, [changed, sameTime]);
+			expect(await poll(parameters)).toEqual([sameTime]);
+			expect(await poll(parameters)).toBeNull();
+		});
+
+		it('queries the selected projects newest first', async () => {
+			mock.on('GET', path, []);
+
+			await poll({ ...parameters, projectIds: ['1', '7'] });
+
+			expect(mock.requests[0].qs).toEqual({
+				type: 'Todo',
+				sort: 'updated_at',
+				direction: 'desc',
+				bucket: '1,7',
+			});
+		});
+
+		it('stops paging once a page reaches the high-water mark', async () => {
+			staticData.states = { 'recordings:Todo': { highWaterMark: '2026-09-02T10:30:00.000Z', seenKeys: [] } };
+			mock.on('GET', path, [at('2026-09-03T08:00:00.000Z'), at('2026-09-01T09:00:00.000Z', 5)], {
+				link: `<https://3.basecampapi.com${path}?page=2>; rel="next"`,
+			});
+
+			expect(await poll(parameters)).toEqual([at('2026-09-03T08:00:00.000Z')]);
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('keeps a high-water mark per recording type', async () => {
+			mock.on('GET', path, [at('2026-09-02T10:30:00.000Z')]);
+
+			await poll({ ...parameters, recordingTypes: ['Todo', 'Message'] });
+
+			expect(Object.keys(staticData.states as IDataObject)).toEqual(['recordings:Todo', 'recordings:Message']);
+		});
+	});
+
+	describe('events', () => {
+		const eventsPath = '/999/buckets/1/recordings/1/events.json';
+
+		it('watches the events of every project when none is selected', async () => {
+			mock.on('GET', '/999/projects.json', [project]);
+			mock.on('GET', eventsPath, [event]);
+			await poll({ source: 'events', projectIds: [] });
+
+			const next = { ...event, id: 31, created_at: '2026-09-03T08:00:00.000Z' };
+			nextPoll();
+			mock.on('GET', '/999/projects.json', [project]);
+			mock.on('GET', eventsPath, [next, event]);
+
+			expect(await poll({ source: 'events', projectIds: [] })).toEqual([{ project_id: '1', ...next }]);
+		});
+
+		it('does not emit an event twice when others share its timestamp', async () => {
+			mock.on('GET', eventsPath, [event]);
+			await poll({ source: 'events', projectIds: ['1'] });
+
+			const sibling = { ...event, id: 31 };
+			nextPoll();
+			mock.on('GET', eventsPath, [sibling, event]);
+
+			expect(await poll({ source: 'events', projectIds: ['1'] })).toEqual([{ project_id: '1', ...sibling }]);
+			expect((staticData.states as IDataObject)['events:1']).toEqual({
+				highWaterMark: event.created_at,
+				seenKeys: ['30', '31'],
+			});
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import type { IDataObject } from 'n8n-workflow';
+
+import { BasecampTrigger } from '../BasecampTrigger.node';
+import { BasecampMock, createHookContext, createWebhookContext } from './mock';
+
+import webhook from './fixtures/webhook.json';
+import webhookEvent from './fixtures/webhookEvent.json';
+
+describe('BasecampTrigger', () => {
+	const node = new BasecampTrigger();
+	const { checkExists, create, delete: remove } = node.webhookMethods.default;
+	const parameters = { projectId: '1', events: ['all'] };
+	const webhookUrl = webhook.payload_url;
+	let mock: BasecampMock;
+	let staticData: IDataObject;
+
+	beforeEach(() => {
+		mock = new BasecampMock();
+		staticData = {};
+	});
+
+	const hook = (overrides: IDataObject = {}) =>
+		createHookContext(mock, { parameters: { ...parameters, ...overrides }, staticData, webhookUrl });
+
+	describe('create', () => {
+		it('registers a webhook for every event and stores its ID', async () => {
+			mock.on('POST', '/999/buckets/1/webhooks.json', webhook);
+
+			expect(await create.call(hook())).toBe(true);
+
+			expect(mock.requests[0].body).toEqual({ payload_url: webhookUrl });
+			expect(staticData.webhookId).toBe(18);
+		});
+
+		it('subscribes to the selected event types only', async () => {
+			mock.on('POST', '/999/buckets/1/webhooks.json', webhook);
+
+			await create.call(hook({ events: ['Todo.created', 'Message.created'] }));
+
+			expect(mock.requests[0].body).toEqual({
+				payload_url: webhookUrl,
+				types: ['Todo.created', 'Message.created'],
+			});
+		});
+	});
+
+	describe('checkExists', () => {
+		it('finds the stored webhook', async () => {
+			staticData.webhookId = 18;
+			mock.on('GET', '/999/buckets/1/webhooks/18.json', webhook);
+
+			expect(await checkExists.call(hook())).toBe(true);
+		});
+
+		it('forgets a stored webhook that was removed in Basecamp', async () => {
+			staticData.webhookId = 18;
+			mock.respond('GET', '/999/buckets/1/webhooks/18.json', { statusCode: 404, body: {} });
+
+			expect(await checkExists.call(hook())).toBe(false);
+			expect(staticData.webhookId).toBeUndefined();
+		});
+
+		it('adopts a webhook left behind for the same URL', async () => {
+			mock.on('GET', '/999/buckets/1/webhooks.json', [{ ...webhook, id: 19, payload_url: 'https://other' }, webhook]);
+
+			expect(await checkExists.call(hook())).toBe(true);
+			expect(staticData.webhookId).toBe(18);
+		});
+
+		it('reports a missing webhook', async () => {
+			mock.on('GET', '/999/buckets/1/webhooks.json', []);
+
+			expect(await checkExists.call(hook())).toBe(false);
+		});
+	});
+
+	describe('delete', () => {
+		it('removes the webhook and forgets its ID', async () => {
+			staticData.webhookId = 18;
+			mock.on('DELETE', '/999/buckets/1/webhooks/18.json', '');
+
+			expect(await remove.call(hook())).toBe(true);
+			expect(mock.requestsTo('DELETE', '/999/buckets/1/webhooks/18.json')).toHaveLength(1);
+			expect(staticData.webhookId).toBeUndefined();
+		});
+
+		it('treats a webhook that is already gone as removed', async () => {
+			staticData.webhookId = 18;
+			mock.respond('DELETE', '/999/buckets/1/webhooks/18.json', { statusCode: 404, body: {} });
+
+			expect(await remove.call(hook())).toBe(true);
+			expect(staticData.webhookId).toBeUndefined();
+		});
+
+		it('keeps the ID when Basecamp refuses the removal', async () => {
+			staticData.webhookId = 18;
+			mock.respond('DELETE', '/999/buckets/1/webhooks/18.json', { statusCode: 403, body: {} });
+
+			expect(await remove.call(hook())).toBe(false);
+			expect(staticData.webhookId).toBe(18);
+		});
+	});
+
+	describe('webhook', () => {
+		const receive = async (filters: IDataObject) =>
+			await node.webhook.call(createWebhookContext({ parameters: { filters }, body: webhookEvent }));
+
+		it('emits the event as it was received', async () => {
+			expect(await receive({})).toEqual({ workflowData: [[{ json: webhookEvent }]] });
+		});
+
+		it.each([
+			[{ recordingTypes: ['Todo'] }, true],
+			[{ recordingTypes: ['Message', 'Kanban::Card'] }, false],
+			[{ creatorIds: ['10'] }, true],
+			[{ creatorIds: ['11'] }, false],
+			[{ recordingTypes: ['Todo'], creatorIds: ['11'] }, false],
+		])('applies the filters %j', async (filters, emitted) => {
+			const response = await receive(filters);
+
+			expect(response.workflowData !== undefined).toBe(emitted);
+		});
+	});
+});
@@ -0,0 +1,845 @@
+import type {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	ILoadOptionsFunctions,
+	INodePropertyOptions,
+} from 'n8n-workflow';
+
+import {
+	basecampApiRequestAllItems,
+	basecampCredentialTest,
+	basecampRequest,
+	buildBasecampUrl,
+	formatRichText,
+	getAccounts,
+	getCampfires,
+	getCardTableColumns,
+	getCardTables,
+	getDocuments,
+	getMessageBoards,
+	getMessages,
+	getNextPageUrl,
+	getPeople,
+	getProjects,
+	getQuestionnaires,
+	getQuestions,
+	getSchedules,
+	getTemplates,
+	getTodolistGroups,
+	getToday,
+	getTodolists,
+	getTodosets,
+	getUploads,
+	getVaults,
+	getWebhooks,
+	markdownToRichText,
+	matchesTodoSearch,
+	parseBasecampUrl,
+	parseDateInTimezone,
+	parseIds,
+	parseRetryAfter,
+	sanitizeRichText,
+	searchAnyRecordings,
+	searchPeople,
+	searchProjects,
+	searchTodos,
+} from '../GenericFunctions';
+import { BasecampMock, createCredentialTestContext, createLoadOptionsContext } from './mock';
+
+import authorization from './fixtures/authorization.json';
+import cardTable from './fixtures/cardTable.json';
+import document from './fixtures/document.json';
+import message from './fixtures/message.json';
+import person from './fixtures/person.json';
+import project from './fixtures/project.json';
+import question from './fixtures/question.json';
+import template from './fixtures/template.json';
+import todo from './fixtures/todo.json';
+import todolist from './fixtures/todolist.json';
+import todolistGroup from './fixtures/todolistGroup.json';
+import upload from './fixtures/upload.json';
+import vault from './fixtures/vault.json';
+import webhook from './fixtures/webhook.json';
+
+type LoadOptionsMethod = (this: ILoadOptionsFunctions) => Promise<INodePropertyOptions[]>;
+
+interface ILoadOptionsCase {
+	name: string;
+	method: LoadOptionsMethod;
+	parameters: IDataObject;
+	routes: Array<[string, unknown]>;
+	options: INodePropertyOptions[];
+}
+
+const projectParameters = { projectId: '1' };
+
+const loadOptionsCases: ILoadOptionsCase[] = [
+	{
+		name: 'getProjects',
+		method: getProjects,
+		parameters: {},
+		routes: [['/999/projects.json', [project]]],
+		options: [{ name: 'Marketing', value: '1' }],
+	},
+	{
+		name: 'getTodolists',
+		method: getTodolists,
+		parameters: projectParameters,
+		routes: [
+			['/999/projects/1.json', project],
+			['/999/buckets/1/todosets/2/todolists.json', [todolist]],
+		],
+		options: [{ name: 'Launch checklist', value: '3' }],
+	},
+	{
+		name: 'getTodolistGroups',
+		method: getTodolistGroups,
+		parameters: { ...projectParameters, targetTodolistId: '3' },
+		routes: [['/999/buckets/1/todolists/3/groups.json', [todolistGroup]]],
+		options: [{ name: 'Checkout epic', value: '5' }],
+	},
+	{
+		name: 'getPeople',
+		method: getPeople,
+		parameters: projectParameters,
+		routes: [['/999/projects/1/people.json', [person]]],
+		options: [{ name: 'Victor Cooper', value: '10' }],
+	},
+	{
+		name: 'getMessageBoards',
+		method: getMessageBoards,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'Message Board', value: '20' }],
+	},
+	{
+		name: 'getCampfires',
+		method: getCampfires,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'Campfire', value: '5' }],
+	},
+	{
+		name: 'getVaults',
+		method: getVaults,
+		parameters: projectParameters,
+		routes: [
+			['/999/projects/1.json', project],
+			['/999/buckets/1/vaults/9/vaults.json', [vault]],
+		],
+		options: [
+			{ name: 'Docs & Files', value: '9' },
+			{ name: 'Contracts', value: '17' },
+		],
+	},
+	{
+		name: 'getSchedules',
+		method: getSchedules,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'Schedule', value: '13' }],
+	},
+	{
+		name: 'getQuestionnaires',
+		method: getQuestionnaires,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'Automatic Check-ins', value: '12' }],
+	},
+	{
+		name: 'getQuestions',
+		method: getQuestions,
+		parameters: { ...projectParameters, questionnaireId: '12' },
+		routes: [['/999/buckets/1/questionnaires/12/questions.json', [question]]],
+		options: [{ name: 'What did you work on today?', value: '11' }],
+	},
+	{
+		name: 'getCardTables',
+		method: getCardTables,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'Card Table', value: '6' }],
+	},
+	{
+		name: 'getCardTableColumns',
+		method: getCardTableColumns,
+		parameters: { ...projectParameters, cardTableId: '6' },
+		routes: [['/999/buckets/1/card_tables/6.json', cardTable]],
+		options: [
+			{ name: 'Triage', value: '70' },
+			{ name: 'In progress', value: '7' },
+			{ name: 'Done', value: '71' },
+		],
+	},
+	{
+		name: 'getMessages',
+		method: getMessages,
+		parameters: { ...projectParameters, messageBoardId: '20' },
+		routes: [['/999/buckets/1/message_boards/20/messages.json', [message]]],
+		options: [{ name: 'Kickoff', value: '21' }],
+	},
+	{
+		name: 'getDocuments',
+		method: getDocuments,
+		parameters: { ...projectParameters, vaultId: '9' },
+		routes: [['/999/buckets/1/vaults/9/documents.json', [document]]],
+		options: [{ name: 'Brand guidelines', value: '24' }],
+	},
+	{
+		name: 'getUploads',
+		method: getUploads,
+		parameters: { ...projectParameters, vaultId: '9' },
+		routes: [['/999/buckets/1/vaults/9/uploads.json', [upload]]],
+		options: [{ name: 'logo.png', value: '16' }],
+	},
+	{
+		name: 'getTodosets',
+		method: getTodosets,
+		parameters: projectParameters,
+		routes: [['/999/projects/1.json', project]],
+		options: [{ name: 'To-dos', value: '2' }],
+	},
+	{
+		name: 'getWebhooks',
+		method: getWebhooks,
+		parameters: projectParameters,
+		routes: [['/999/buckets/1/webhooks.json', [webhook]]],
+		options: [{ name: 'https://example.com/hooks/basecamp', value: '18' }],
+	},
+	{
+		name: 'getTemplates',
+		method: getTemplates,
+		parameters: {},
+		routes: [['/999/templates.json', [template]]],
+		options: [{ name: 'Client onboarding', value: '15' }],
+	},
+];
+
+describe('GenericFunctions', () => {
+	let mock: BasecampMock;
+
+	beforeEach(() => {
+		mock = new BasecampMock();
+	});
+
+	describe('loadOptions', () => {
+		it.each(loadOptionsCases)('$name lists the recorded items', async ({ method, parameters, routes, options }) => {
+			for (const [path, body] of routes) {
+				mock.on('GET', path, body);
+			}
+
+			const result = await method.call(createLoadOptionsContext(mock, { parameters }));
+
+			expect(result).toEqual(options);
+		});
+
+		it('getAccounts lists only Basecamp 4 accounts from Launchpad', async () => {
+			mock.on('GET', '/authorization.json', authorization);
+
+			const result = await getAccounts.call(createLoadOptionsContext(mock));
+
+			expect(result).toEqual([{ name: 'Honcho Design', value: '999' }]);
+			expect(mock.requests[0].url).toBe('https://launchpad.37signals.com/authorization.json');
+		});
+
+		it('getCardTableColumns falls back to the card table of the project', async () => {
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('GET', '/999/buckets/1/card_tables/6.json', cardTable);
+
+			const result = await getCardTableColumns.call(
+				createLoadOptionsContext(mock, { parameters: { ...projectParameters, cardTableId: '' } }),
+			);
+
+			expect(result.map(({ value }) => value)).toEqual(['70', '7', '71']);
+		});
+
+		it('returns no options for a tool that is missing from the dock', async () => {
+			mock.on('GET', '/999/projects/1.json', { ...project, dock: [] });
+
+			const result = await getCampfires.call(
+				createLoadOptionsContext(mock, { parameters: projectParameters }),
+			);
+
+			expect(result).toEqual([]);
+		});
+	});
+
+	describe('listSearch', () => {
+		it('searchProjects filters by name and hands out the next page as token', async () => {
+			const next = 'https://3.basecampapi.com/999/projects.json?page=2';
+			mock.on('GET', '/999/projects.json', [project, { ...project, id: 2, name: 'Hiring' }], {
+				link: `<${next}>; rel="next"`,
+			});
+
+			const result = await searchProjects.call(createLoadOptionsContext(mock), 'mark');
+
+			expect(result).toEqual({
+				results: [{ name: 'Marketing', value: '1', url: project.app_url }],
+				paginationToken: next,
+			});
+		});
+
+		it('searchProjects continues from the pagination token', async () => {
+			mock.on('GET', '/999/projects.json?page=2', [{ ...project, id: 2, name: 'Hiring' }]);
+
+			const result = await searchProjects.call(
+				createLoadOptionsContext(mock),
+				undefined,
+				'https://3.basecampapi.com/999/projects.json?page=2',
+			);
+
+			expect(result.results.map(({ value }) => value)).toEqual(['2']);
+			expect(result.paginationToken).toBeUndefined();
+		});
+
+		it('searchPeople matches email addresses', async () => {
+			mock.on('GET', '/999/people.json', [
+				person,
+				{ ...person, id: 11, name: 'Annie Bryan', email_address: 'annie@honchodesign.com' },
+			]);
+
+			const result = await searchPeople.call(createLoadOptionsContext(mock), 'ANNIE@');
+
+			expect(result.results.map(({ value }) => value)).toEqual(['11']);
+		});
+
+		it('searchTodos lists recently updated to-dos of the project without a filter', async () => {
+			mock.on('GET', '/999/projects/recordings.json', [todo]);
+
+			const result = await searchTodos.call(
+				createLoadOptionsContext(mock, { parameters: { projectId: { __rl: true, mode: 'list', value: '1' } } }),
+			);
+
+			expect(result.results).toEqual([{ name: todo.title, value: '4', url: todo.app_url }]);
+			expect(mock.requests[0].qs).toEqual({ type: 'Todo', sort: 'updated_at', direction: 'desc', bucket: '1' });
+		});
+
+		it('searchTodos uses the full-text search with a filter', async () => {
+			mock.on('GET', '/999/search.json', [todo]);
+
+			await searchTodos.call(createLoadOptionsContext(mock, { parameters: projectParameters }), 'badge');
+
+			expect(mock.requests[0].qs).toEqual({ q: 'badge', type: 'Todo', bucket_id: '1' });
+		});
+
+		it('searchAnyRecordings needs a filter', async () => {
+			const result = await searchAnyRecordings.call(
+				createLoadOptionsContext(mock, { parameters: projectParameters }),
+			);
+
+			expect(result).toEqual({ results: [] });
+			expect(mock.requests).toHaveLength(0);
+		});
+	});
+
+	describe('basecampApiRequestAllItems', () => {
+		const link = (page: number) => ({
+			link: `<https://3.basecampapi.com/999/projects.json?page=${page}>; rel="next"`,
+		});
+
+		it('follows Link headers until the last page', async () => {
+			mock.on('GET', '/999/projects.json', [{ id: 1 }], link(2));
+			mock.on('GET', '/999/projects.json?page=2', [{ id: 2 }], link(3));
+			mock.on('GET', '/999/projects.json?page=3', [{ id: 3 }]);
+
+			const result = await basecampApiRequestAllItems.call(
+				createLoadOptionsContext(mock),
+				'GET',
+				'/projects.json',
+			);
+
+			expect(result).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+			expect(mock.requests).toHaveLength(3);
+		});
+
+		it('stops once X-Total-Count items are collected', async () => {
+			mock.on('GET', '/999/projects.json', [{ id: 1 }, { id: 2 }], { ...link(2), 'x-total-count': '2' });
+
+			const result = await basecampApiRequestAllItems.call(
+				createLoadOptionsContext(mock),
+				'GET',
+				'/projects.json',
+			);
+
+			expect(result).toHaveLength(2);
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('sends the query only with the first page', async () => {
+			mock.on('GET', '/999/projects.json', [{ id: 1 }], link(2));
+			mock.on('GET', '/999/projects.json?page=2', [{ id: 2 }]);
+
+			await basecampApiRequestAllItems.call(
+				createLoadOptionsContext(mock),
+				'GET',
+				'/projects.json',
+				{},
+				{ status: 'archived' },
+			);
+
+			expect(mock.requests.map((request) => request.qs)).toEqual([{ status: 'archived' }, undefined]);
+		});
+
+		it('stops when the callback says so', async () => {
+			mock.on('GET', '/999/projects.json', [{ id: 1 }], link(2));
+
+			const result = await basecampApiRequestAllItems.call(
+				createLoadOptionsContext(mock),
+				'GET',
+				'/projects.json',
+				{},
+				{},
+				undefined,
+				() => true,
+			);
+
+			expect(result).toEqual([{ id: 1 }]);
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('uses the API base URL of the credential', async () => {
+			mock.on('GET', '/999/projects.json', [{ id: 1 }]);
+
+			await basecampApiRequestAllItems.call(
+				createLoadOptionsContext(mock, { credentials: { apiBaseUrl: 'http://localhost:3000/' } }),
+				'GET',
+				'/projects.json',
+			);
+
+			expect(mock.requests[0].url).toBe('http://localhost:3000/999/projects.json');
+		});
+	});
+
+	describe('basecampRequest', () => {
+		const url = 'https://3.basecampapi.com/999/projects/1.json';
+		const unavailable = (statusCode: number, headers: IDataObject = { 'retry-after': '0' }) => ({
+			statusCode,
+			headers,
+			body: { error: 'Unavailable' },
+		});
+		const context = (requestOptions: IDataObject = {}) =>
+			createLoadOptionsContext(mock, { parameters: { requestOptions: { throttle: false, ...requestOptions } } });
+
+		it('retries idempotent requests on 502, 503 and 504', async () => {
+			mock.respond('GET', '/999/projects/1.json', unavailable(503));
+			mock.respond('GET', '/999/projects/1.json', unavailable(504));
+			mock.on('GET', '/999/projects/1.json', project);
+
+			const result = await basecampRequest.call(context(), { method: 'GET', url, json: true }, '999');
+
+			expect(result).toEqual(project);
+			expect(mock.requests).toHaveLength(3);
+		});
+
+		it('does not retry a POST on a gateway error', async () => {
+			mock.respond('POST', '/999/projects/1.json', unavailable(502));
+
+			await expect(
+				basecampRequest.call(context(), { method: 'POST', url, body: {}, json: true }, '999'),
+			).rejects.toThrow();
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('retries a POST that was rate limited', async () => {
+			mock.respond('POST', '/999/projects/1.json', unavailable(429));
+			mock.on('POST', '/999/projects/1.json', project);
+
+			const result = await basecampRequest.call(
+				context(),
+				{ method: 'POST', url, body: {}, json: true },
+				'999',
+			);
+
+			expect(result).toEqual(project);
+			expect(mock.requests).toHaveLength(2);
+		});
+
+		it('gives up after the configured number of retries', async () => {
+			mock.respond('GET', '/999/projects/1.json', unavailable(503));
+
+			await expect(
+				basecampRequest.call(context({ maxRetries: 2 }), { method: 'GET', url, json: true }, '999'),
+			).rejects.toThrow();
+			expect(mock.requests).toHaveLength(3);
+		});
+
+		it('backs off without a Retry-After header', async () => {
+			mock.respond('GET', '/999/projects/1.json', unavailable(503, {}));
+			mock.on('GET', '/999/projects/1.json', project);
+
+			const started = Date.now();
+			await basecampRequest.call(context(), { method: 'GET', url, json: true }, '999');
+
+			// The first retry waits between half and all of the 1s base delay
+			expect(Date.now() - started).toBeGreaterThanOrEqual(490);
+			expect(mock.requests).toHaveLength(2);
+		});
+
+		it('holds back other requests of the account after a 429', async () => {
+			mock.respond('GET', '/999/projects/1.json', unavailable(429, { 'retry-after': '1' }));
+			mock.on('GET', '/999/projects/1.json', project);
+			mock.on('GET', '/999/projects.json', [project]);
+
+			const started = Date.now();
+			const first = basecampRequest.call(
+				context({ throttle: true }),
+				{ method: 'GET', url, json: true },
+				'rate-limit-test',
+			);
+			// Let the first request hit the 429 before the second one asks for a token
+			await new Promise((resolve) => setImmediate(resolve));
+			await basecampRequest.call(
+				context({ throttle: true }),
+				{ method: 'GET', url: 'https://3.basecampapi.com/999/projects.json', json: true },
+				'rate-limit-test',
+			);
+			await first;
+
+			expect(Date.now() - started).toBeGreaterThanOrEqual(990);
+			expect(mock.requests).toHaveLength(3);
+		});
+	});
+
+	describe('basecampCredentialTest', () => {
+		const credential = (data: ICredentialDataDecryptedObject) => ({
+			id: '1',
+			name: 'Basecamp',
+			type: 'basecampOAuth2Api',
+			data,
+		});
+
+		it('reports the user, token expiry and reachable accounts', async () => {
+			mock.on('GET', '/authorization.json', authorization);
+
+			const result = await basecampCredentialTest.call(
+				createCredentialTestContext(mock),
+				credential({ oauthTokenData: { access_token: 'token' } }),
+			);
+
+			expect(result).toEqual({
+				status: 'OK',
+				message:
+					'Authenticated as Victor Cooper <victor@honchodesign.com>. Token expires at 2026-11-02T09:00:00Z. Accounts: Honcho Design (999)',
+			});
+			expect(mock.requests[0].headers).toMatchObject({ Authorization: 'Bearer token' });
+			expect(mock.requests[0].uri).toBe('https://launchpad.37signals.com/authorization.json');
+		});
+
+		it('asks Launchpad at the URL of the credential', async () => {
+			mock.on('GET', '/authorization.json', authorization);
+
+			await basecampCredentialTest.call(
+				createCredentialTestContext(mock),
+				credential({ accessToken: 'token', launchpadUrl: 'http://localhost:4000' }),
+			);
+
+			expect(mock.requests[0].uri).toBe('http://localhost:4000/authorization.json');
+		});
+
+		it('fails without an access token', async () => {
+			const result = await basecampCredentialTest.call(createCredentialTestContext(mock), credential({}));
+
+			expect(result.status).toBe('Error');
+			expect(mock.requests).toHaveLength(0);
+		});
+
+		it('fails when Launchpad rejects the token', async () => {
+			mock.respond('GET', '/authorization.json', { statusCode: 401, body: { error: 'Unauthorized' } });
+
+			const result = await basecampCredentialTest.call(
+				createCredentialTestContext(mock),
+				credential({ accessToken: 'expired' }),
+			);
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toMatch(/^Launchpad rejected the token: 401/);
+		});
+
+		it('fails when the user has no Basecamp 4 accounts', async () => {
+			mock.on('GET', '/authorization.json', {
+				...authorization,
+				accounts: authorization.accounts.filter(({ product }) => product !== 'bc3'),
+			});
+
+			const result = await basecampCredentialTest.call(
+				createCredentialTestContext(mock),
+				credential({ accessToken: 'token' }),
+			);
+
+			expect(result).toEqual({
+				status: 'Error',
+				message:
+					'Authenticated as Victor Cooper <victor@honchodesign.com>, but no Basecamp 4 accounts are available to this user',
+			});
+		});
+	});
+
+	describe('getNextPageUrl', () => {
+		it('picks the next link among several relations', () => {
+			expect(
+				getNextPageUrl({
+					link: '<https://3.basecampapi.com/999/people.json?page=1>; rel="prev", <https://3.basecampapi.com/999/people.json?page=3>; rel="next"',
+				}),
+			).toBe('https://3.basecampapi.com/999/people.json?page=3');
+		});
+
+		it('returns nothing on the last page', () => {
+			expect(getNextPageUrl({})).toBeUndefined();
+			expect(getNextPageUrl(undefined)).toBeUndefined();
+		});
+	});
+
+	describe('parseIds', () => {
+		it.each([
+			[['10', '11'], [10, 11]],
+			['10, 11', [10, 11]],
+			['[10, 11]', [10, 11]],
+			[12, [12]],
+			[['10', 'nobody'], [10]],
+			['12abc, 7', [7]],
+			[['1.9', ' 8 '], [8]],
+			[[1.5, -3, 9], [9]],
+		])('parses %j', (value, expected) => {
+			expect(parseIds(value)).toEqual(expected);
+		});
+
+		it.each([[''], ['  '], [[]], [['nobody']], ['12abc'], [undefined]])('returns nothing for %j', (value) => {
+			expect(parseIds(value)).toBeUndefined();
+		});
+	});
+
+	describe('matchesTodoSearch', () => {
+		const today = '2026-11-05';
+
+		it.each([
+			[{}, true],
+			[{ assigneeIds: '11, 10' }, true],
+			[{ assigneeIds: '11' }, false],
+			[{ dueAfter: '2026-10-31T00:00:00.000Z' }, true],
+			[{ dueAfter: '2026-11-01T00:00:00.000Z' }, false],
+			[{ dueBefore: '2026-10-31T00:00:00.000Z' }, true],
+			[{ dueBefore: '2026-10-30T00:00:00.000Z' }, false],
+			// Days as picked in the editor, without their time or offset
+			[{ dueAfter: '2026-10-31T00:00:00' }, true],
+			[{ dueAfter: '2026-10-31T23:30:00-05:00' }, true],
+			[{ overdue: true }, true],
+			[{ completedSince: '2026-09-01T00:00:00.000Z' }, false],
+		])('checks %j', (filters, expected) => {
+			expect(matchesTodoSearch(todo, filters, today)).toBe(expected);
+		});
+
+		it('does not count completed to-dos or to-dos without a due date as overdue', () => {
+			expect(matchesTodoSearch({ ...todo, completed: true }, { overdue: true }, today)).toBe(false);
+			expect(matchesTodoSearch({ ...todo, due_on: null }, { overdue: true }, today)).toBe(false);
+			expect(matchesTodoSearch(todo, { overdue: true }, '2026-10-31')).toBe(false);
+		});
+
+		it('compares completedSince with the completion time', () => {
+			const completed = {
+				...todo,
+				completed: true,
+				completion: { created_at: '2026-11-02T16:00:00.000Z' },
+			};
+
+			expect(matchesTodoSearch(completed, { completedSince: '2026-11-02T00:00:00.000Z' }, today)).toBe(true);
+			expect(matchesTodoSearch(completed, { completedSince: '2026-11-03T00:00:00.000Z' }, today)).toBe(false);
+		});
+
+		it('reads a completion time without an offset in the given time zone', () => {
+			const completed = {
+				...todo,
+				completed: true,
+				completion: { created_at: '2026-11-02T16:00:00.000Z' },
+			};
+			const filters = { completedSince: '2026-11-02T12:00:00' };
+
+			expect(matchesTodoSearch(completed, filters, today, 'UTC')).toBe(true);
+			expect(matchesTodoSearch(completed, filters, today, 'America/Los_Angeles')).toBe(false);
+		});
+
+		it('leaves out completed to-dos listed without their completion', () => {
+			const completed = { ...todo, completed: true, updated_at: '2026-11-02T16:00:00.000Z' };
+
+			expect(matchesTodoSearch(completed, { completedSince: '2026-11-01T00:00:00.000Z' }, today)).toBe(false);
+		});
+	});
+
+	describe('parseDateInTimezone', () => {
+		it.each([
+			['2026-07-01T12:00:00', 'Europe/Berlin', '2026-07-01T10:00:00.000Z'],
+			['2026-11-01T00:00:00', 'America/New_York', '2026-11-01T04:00:00.000Z'],
+			['2026-11-01T12:00:00', 'America/New_York', '2026-11-01T17:00:00.000Z'],
+			['2026-11-01', 'Asia/Tokyo', '2026-10-31T15:00:00.000Z'],
+			['2026-11-01T00:00:00.000Z', 'Asia/Tokyo', '2026-11-01T00:00:00.000Z'],
+			['2026-11-01T00:00:00+02:00', 'UTC', '2026-10-31T22:00:00.000Z'],
+		])('reads %s in %s', (value, timezone, expected) => {
+			expect(new Date(parseDateInTimezone(value, timezone)).toISOString()).toBe(expected);
+		});
+	});
+
+	describe('getToday', () => {
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('returns the date in the given time zone', () => {
+			jest.useFakeTimers({ now: new Date('2026-11-05T03:00:00.000Z') });
+
+			expect(getToday('UTC')).toBe('2026-11-05');
+			expect(getToday('America/New_York')).toBe('2026-11-04');
+		});
+	});
+
+	describe('parseBasecampUrl', () => {
+		it.each([
+			[
+				'https://3.basecamp.com/999/buckets/1/todos/4',
+				{ accountId: '999', bucketId: '1', type: 'Todo', recordingId: '4' },
+			],
+			[
+				'https://3.basecampapi.com/999/buckets/1/card_tables/cards/8.json',
+				{ accountId: '999', bucketId: '1', type: 'Kanban::Card', recordingId: '8' },
+			],
+			[
+				'3.basecamp.com/999/buckets/1/chats/5/lines/23',
+				{ accountId: '999', bucketId: '1', type: 'Chat::Line', recordingId: '23', parentId: '5' },
+			],
+			[
+				'https://3.basecamp.com/999/buckets/1/messages/21?tab=comments#__recording_22',
+				{ accountId: '999', bucketId: '1', type: 'Message', recordingId: '21' },
+			],
+			[
+				'https://3.basecampapi.com/999/buckets/1/todos/4/completion.json',
+				{ accountId: '999', bucketId: '1', type: 'Todo', recordingId: '4' },
+			],
+			[
+				'https://3.basecampapi.com/999/buckets/1/recordings/4/comments.json',
+				{ accountId: '999', bucketId: '1', type: undefined, recordingId: '4' },
+			],
+			['https://3.basecamp.com/999/projects/1', { accountId: '999', bucketId: '1' }],
+			['https://3.basecamp.com/999/my/assignments', { accountId: '999' }],
+		])('parses %s', (link, expected) => {
+			expect(parseBasecampUrl(link)).toEqual(expected);
+		});
+
+		it('rejects links without an account', () => {
+			expect(parseBasecampUrl('https://basecamp.com/pricing')).toBeUndefined();
+			expect(parseBasecampUrl('not a link')).toBeUndefined();
+		});
+	});
+
+	describe('parseRetryAfter', () => {
+		it('reads seconds and HTTP dates', () => {
+			expect(parseRetryAfter('10')).toBe(10000);
+			expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+			expect(parseRetryAfter(undefined)).toBeUndefined();
+			expect(parseRetryAfter('soon')).toBeUndefined();
+		});
+	});
+
+	describe('sanitizeRichText', () => {
+		it('keeps supported tags and drops the rest', () => {
+			expect(
+				sanitizeRichText('<p class="x">Hi <b>there</b><script>alert(1)</script><span>!</span></p>'),
+			).toBe('<div>Hi <strong>there</strong>!</div>');
+		});
+
+		it('escapes link targets so they cannot open new attributes', () => {
+			expect(sanitizeRichText(`<a href='x" onclick="alert(1)'>go</a>`)).toBe(
+				'<a href="x&quot; onclick=&quot;alert(1)">go</a>',
+			);
+			expect(sanitizeRichText('<a href="https://example.com/?a=1&amp;b=2">go</a>')).toBe(
+				'<a href="https://example.com/?a=1&amp;b=2">go</a>',
+			);
+		});
+
+		it.each([
+			['javascript:alert(1)'],
+			['JavaScript:alert(1)'],
+			[' java\tscript:alert(1)'],
+			['&#106;avascript:alert(1)'],
+			['data:text/html;base64,PHNjcmlwdD4='],
+			['vbscript:msgbox(1)'],
+		])('drops the link target %j', (url) => {
+			expect(sanitizeRichText(`<a href="${url}">go</a>`)).toBe('<a>go</a>');
+		});
+
+		it('keeps only the known attachment attributes, escaped', () => {
+			expect(
+				sanitizeRichText(
+					'<bc-attachment sgid="BAh7" caption=\'a "b"\' onclick="alert(1)" style="x" content-type="image/png"/>',
+				),
+			).toBe('<bc-attachment sgid="BAh7" caption="a &quot;b&quot;" content-type="image/png"></bc-attachment>');
+			expect(sanitizeRichText('<bc-attachment sgid="BAh7" href="javascript:alert(1)"></bc-attachment>')).toBe(
+				'<bc-attachment sgid="BAh7"></bc-attachment>',
+			);
+		});
+	});
+
+	describe('markdownToRichText', () => {
+		it('converts headings and paragraphs', () => {
+			expect(markdownToRichText('## Launch plan\n\nShip it\non Friday')).toBe(
+				'<h1>Launch plan</h1><br><div>Ship it<br>on Friday</div>',
+			);
+		});
+
+		it('converts lists', () => {
+			expect(markdownToRichText('- one\n- **two**\n\n1. first\n2. second')).toBe(
+				'<ul><li>one</li><li><strong>two</strong></li></ul><br><ol><li>first</li><li>second</li></ol>',
+			);
+		});
+
+		it('converts code blocks and inline code without formatting them', () => {
+			expect(markdownToRichText('```\nif (a < b) { *x* }\n```\nRun `npm *test*`')).toBe(
+				'<pre>if (a &lt; b) { *x* }</pre><br><div>Run npm *test*</div>',
+			);
+		});
+
+		it('converts links, emphasis and quotes', () => {
+			expect(markdownToRichText('See [the *docs*](https://example.com/?a=1&b="2") _now_ ~~later~~')).toBe(
+				'<div>See <a href="https://example.com/?a=1&amp;b=&quot;2&quot;">the *docs*</a> ' +
+					'<em>now</em> <strike>later</strike></div>',
+			);
+			expect(markdownToRichText('> quoted\n> text')).toBe('<blockquote>quoted<br>text</blockquote>');
+		});
+
+		it('keeps only the label of unsafe links', () => {
+			expect(markdownToRichText('[x](javascript:alert(document.cookie))')).toBe('<div>x</div>');
+			expect(markdownToRichText('[x](JavaScript&#58;alert(1))')).toBe('<div>x</div>');
+			expect(markdownToRichText('[x](data:text/html;base64,PHNjcmlwdD4=)')).toBe('<div>x</div>');
+		});
+
+		it('keeps parentheses inside link URLs', () => {
+			expect(markdownToRichText('[Ada](https://en.wikipedia.org/wiki/Ada_(language))')).toBe(
+				'<div><a href="https://en.wikipedia.org/wiki/Ada_(language)">Ada</a></div>',
+			);
+		});
+
+		it('escapes HTML in the text', () => {
+			expect(markdownToRichText('<script>alert(1)</script> & more')).toBe(
+				'<div>&lt;script&gt;alert(1)&lt;/script&gt; &amp; more</div>',
+			);
+		});
+	});
+
+	describe('formatRichText', () => {
+		it('sends raw content as given', () => {
+			expect(formatRichText('<custom>Hi</custom>', 'raw')).toBe('<custom>Hi</custom>');
+		});
+
+		it('escapes plain text and keeps line breaks', () => {
+			expect(formatRichText('a < b\nc', 'plain')).toBe('<div>a &lt; b<br>c</div>');
+		});
+	});
+
+	describe('buildBasecampUrl', () => {
+		it('falls back to the Basecamp hosts', () => {
+			expect(buildBasecampUrl({}, 'api', '/999/projects.json')).toBe(
+				'https://3.basecampapi.com/999/projects.json',
+			);
+			expect(buildBasecampUrl({}, 'launchpad', '/authorization.json')).toBe(
+				'https://launchpad.37signals.com/authorization.json',
+			);
+		});
+	});
+});
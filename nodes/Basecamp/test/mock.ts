@@ -0,0 +1,310 @@
+import type {
+	ICredentialDataDecryptedObject,
+	ICredentialTestFunctions,
+	IDataObject,
+	IExecuteFunctions,
+	IHookFunctions,
+	ILoadOptionsFunctions,
+	INode,
+	INodeExecutionData,
+	IPollFunctions,
+	IRequestOptions,
+	IWebhookFunctions,
+} from 'n8n-workflow';
+import { Readable } from 'stream';
+
+export interface IRecordedResponse {
+	statusCode?: number;
+	headers?: IDataObject;
+	body: unknown;
+}
+
+interface IMockContextOptions {
+	parameters?: IDataObject;
+	items?: INodeExecutionData[];
+	credentials?: ICredentialDataDecryptedObject;
+	continueOnFail?: boolean;
+	// Static data of the node, kept by the caller across trigger runs
+	staticData?: IDataObject;
+	webhookUrl?: string;
+	body?: IDataObject;
+	timezone?: string;
+	mode?: 'manual' | 'trigger';
+}
+
+const DEFAULT_PARAMETERS: IDataObject = {
+	authentication: 'oAuth2',
+	accountId: '999',
+	contentFormat: 'raw',
+	// The shared rate limiter would otherwise pace long test runs
+	requestOptions: { throttle: false },
+};
+
+const node: INode = {
+	id: 'basecamp-test',
+	name: 'Basecamp',
+	type: 'n8n-nodes-basecamp-complete.basecamp',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+/**
+ * Stand-in for Basecamp that answers `requestWithAuthentication` with
+ * recorded responses. Routes are matched on method, path and query string
+ * of the final URL, so each page of a paginated list is its own route.
+ */
+export class BasecampMock {
+	readonly requests: IRequestOptions[] = [];
+
+	private readonly routes = new Map<string, IRecordedResponse[]>();
+
+	/**
+	 * Answer a request with the given body. Registering the same route again
+	 * queues another response; the last one keeps answering.
+	 */
+	on(method: string, path: string, body: unknown, headers: IDataObject = {}): this {
+		return this.respond(method, path, { statusCode: 200, headers, body });
+	}
+
+	respond(method: string, path: string, response: IRecordedResponse): this {
+		const key = `${method.toUpperCase()} ${path}`;
+		const queue = this.routes.get(key) ?? [];
+		queue.push(response);
+		this.routes.set(key, queue);
+		return this;
+	}
+
+	/**
+	 * Find the requests sent to a route
+	 */
+	requestsTo(method: string, path: string): IRequestOptions[] {
+		return this.requests.filter(
+			(request) => `${request.method} ${routeOf(request)}` === `${method.toUpperCase()} ${path}`,
+		);
+	}
+
+	async handle(options: IRequestOptions): Promise<unknown> {
+		this.requests.push(options);
+
+		const key = `${(options.method || 'GET').toUpperCase()} ${routeOf(options)}`;
+		const queue = this.routes.get(key);
+		if (!queue) {
+			throw Object.assign(new Error(`404 - No recorded response for ${key}`), {
+				statusCode: 404,
+				response: { status: 404, headers: {} },
+			});
+		}
+
+		const response = queue.length > 1 ? queue.shift()! : queue[0];
+		const statusCode = response.statusCode ?? 200;
+		const headers = response.headers ?? {};
+
+		if (statusCode >= 400) {
+			throw Object.assign(new Error(`${statusCode} - ${JSON.stringify(response.body)}`), {
+				statusCode,
+				response: { status: statusCode, headers },
+			});
+		}
+
+		// n8n hands streamed responses to the node as a readable stream
+		const body =
+			options.useStream && Buffer.isBuffer(response.body) ? Readable.from([response.body]) : response.body;
+
+		if (options.resolveWithFullResponse) {
+			return { statusCode, headers, body };
+		}
+
+		return body;
+	}
+}
+
+/**
+ * Path and query string of a request, without the host
+ */
+function routeOf(options: IRequestOptions): string {
+	const url = new URL((options.uri ?? options.url) as string);
+	return `${url.pathname}${url.search}`;
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk as Buffer);
+	}
+	return Buffer.concat(chunks);
+}
+
+interface IGetNodeParameterOptions {
+	extractValue?: boolean;
+}
+
+/**
+ * Read a parameter the way n8n does. Resource locators are unwrapped to
+ * their value; links are left as pasted, the node parses those itself.
+ */
+function readParameter(
+	parameters: IDataObject,
+	name: string,
+	fallback?: unknown,
+	options?: IGetNodeParameterOptions,
+) {
+	const value = parameters[name];
+	if (value === undefined) {
+		if (fallback !== undefined) {
+			return fallback;
+		}
+		throw new Error(`Could not get parameter "${name}"`);
+	}
+
+	if (options?.extractValue && typeof value === 'object' && value !== null && '__rl' in value) {
+		return (value as IDataObject).value;
+	}
+
+	// Nodes may mutate collections, so every call gets a fresh copy
+	return structuredClone(value);
+}
+
+function createBaseContext(mock: BasecampMock, options: IMockContextOptions) {
+	const parameters: IDataObject = { ...DEFAULT_PARAMETERS, ...options.parameters };
+
+	return {
+		getNode: () => node,
+		getNodeParameter: (
+			name: string,
+			_itemIndex?: number,
+			fallback?: unknown,
+			parameterOptions?: IGetNodeParameterOptions,
+		) => readParameter(parameters, name, fallback, parameterOptions),
+		getCredentials: async () => options.credentials ?? {},
+		getTimezone: () => options.timezone ?? 'UTC',
+		helpers: {
+			requestWithAuthentication: async (_credentialType: string, requestOptions: IRequestOptions) =>
+				await mock.handle(requestOptions),
+		},
+	};
+}
+
+/**
+ * Create the execute context of a node run against the mock
+ */
+export function createExecuteContext(
+	mock: BasecampMock,
+	options: IMockContextOptions = {},
+): IExecuteFunctions {
+	const base = createBaseContext(mock, options);
+	const items: INodeExecutionData[] = options.items ?? [{ json: {} }];
+
+	return {
+		...base,
+		getInputData: () => items,
+		continueOnFail: () => options.continueOnFail ?? false,
+		helpers: {
+			...base.helpers,
+			returnJsonArray: (data: IDataObject | IDataObject[]) =>
+				(Array.isArray(data) ? data : [data]).map((json) => ({ json })),
+			constructExecutionMetaData: (
+				data: INodeExecutionData[],
+				{ itemData }: { itemData: { item: number } },
+			) => data.map((item) => ({ ...item, pairedItem: itemData })),
+			assertBinaryData: (itemIndex: number, propertyName: string) => {
+				const binaryData = items[itemIndex].binary?.[propertyName];
+				if (!binaryData) {
+					throw new Error(`This operation expects the node's input data to contain a binary file '${propertyName}'`);
+				}
+				return binaryData;
+			},
+			getBinaryDataBuffer: async (itemIndex: number, propertyName: string) =>
+				Buffer.from(items[itemIndex].binary![propertyName].data, 'base64'),
+			prepareBinaryData: async (data: Buffer | Readable, fileName?: string, mimeType?: string) => ({
+				data: (Buffer.isBuffer(data) ? data : await readStream(data)).toString('base64'),
+				fileName,
+				mimeType,
+			}),
+		},
+	} as unknown as IExecuteFunctions;
+}
+
+/**
+ * Create the context of a load-options method run against the mock
+ */
+export function createLoadOptionsContext(
+	mock: BasecampMock,
+	options: IMockContextOptions = {},
+): ILoadOptionsFunctions {
+	const parameters: IDataObject = { ...DEFAULT_PARAMETERS, ...options.parameters };
+
+	return {
+		...createBaseContext(mock, options),
+		// Load-options methods pass no item index
+		getNodeParameter: (name: string, fallback?: unknown, parameterOptions?: IGetNodeParameterOptions) =>
+			readParameter(parameters, name, fallback, parameterOptions),
+	} as unknown as ILoadOptionsFunctions;
+}
+
+/**
+ * Create the context of a webhook trigger's lifecycle methods
+ */
+export function createHookContext(mock: BasecampMock, options: IMockContextOptions = {}): IHookFunctions {
+	const parameters: IDataObject = { ...DEFAULT_PARAMETERS, ...options.parameters };
+	const staticData = options.staticData ?? {};
+
+	return {
+		...createBaseContext(mock, options),
+		// Hook functions pass no item index
+		getNodeParameter: (name: string, fallback?: unknown) => readParameter(parameters, name, fallback),
+		getWorkflowStaticData: () => staticData,
+		getNodeWebhookUrl: () => options.webhookUrl ?? 'https://n8n.example.com/webhook/basecamp',
+	} as unknown as IHookFunctions;
+}
+
+/**
+ * Create the context of a webhook trigger receiving a request
+ */
+export function createWebhookContext(options: IMockContextOptions = {}): IWebhookFunctions {
+	const parameters: IDataObject = { ...DEFAULT_PARAMETERS, ...options.parameters };
+
+	return {
+		getNode: () => node,
+		getBodyData: () => options.body ?? {},
+		// Webhook functions pass no item index
+		getNodeParameter: (name: string, fallback?: unknown) => readParameter(parameters, name, fallback),
+		helpers: {
+			returnJsonArray: (data: IDataObject | IDataObject[]) =>
+				(Array.isArray(data) ? data : [data]).map((json) => ({ json })),
+		},
+	} as unknown as IWebhookFunctions;
+}
+
+/**
+ * Create the context of a polling trigger run against the mock
+ */
+export function createPollContext(mock: BasecampMock, options: IMockContextOptions = {}): IPollFunctions {
+	const parameters: IDataObject = { ...DEFAULT_PARAMETERS, ...options.parameters };
+	const staticData = options.staticData ?? {};
+
+	return {
+		...createBaseContext(mock, options),
+		// Poll functions pass no item index
+		getNodeParameter: (name: string, fallback?: unknown) => readParameter(parameters, name, fallback),
+		getWorkflowStaticData: () => staticData,
+		getMode: () => options.mode ?? 'trigger',
+		helpers: {
+			requestWithAuthentication: async (_credentialType: string, requestOptions: IRequestOptions) =>
+				await mock.handle(requestOptions),
+			returnJsonArray: (data: IDataObject | IDataObject[]) =>
+				(Array.isArray(data) ? data : [data]).map((json) => ({ json })),
+		},
+	} as unknown as IPollFunctions;
+}
+
+/**
+ * Create the context of a credential test, whose requests go to the mock
+ */
+export function createCredentialTestContext(mock: BasecampMock): ICredentialTestFunctions {
+	return {
+		helpers: {
+			request: async (requestOptions: IRequestOptions) => await mock.handle(requestOptions),
+		},
+	} as unknown as ICredentialTestFunctions;
+}